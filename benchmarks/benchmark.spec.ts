@@ -2,6 +2,14 @@ import { writeFileSync } from "fs";
 import path from "path";
 // Import the built CommonJS JavaScript file for maximum performance accuracy
 const mapFilter = require("../dist-cjs/index.js").default;
+const {
+  filterMap,
+  mapFilterInPlace,
+  mapFilterTopK,
+  mapFilterTyped,
+  pipeline,
+  SKIP,
+} = require("../dist-cjs/index.js");
 
 // Reducer-based filter-map implementation for comparison
 function reduce<T, U>(
@@ -196,6 +204,149 @@ describe("Production Performance Benchmarks (Built JS)", () => {
     });
   });
 
+  describe("Memory - In-Place Compaction", () => {
+    const size = 1000000;
+    const iterations = 10;
+
+    const generateNumbers = (size: number): number[] =>
+      Array.from({ length: size }, (_, i) => i + 1);
+
+    const isEven = (n: number): boolean => n % 2 === 0;
+    const double = (n: number): number => n * 2;
+
+    // Heap growth caused by one call. The input is built beforehand so only the
+    // output allocation is counted; run jest with `node --expose-gc` for steadier numbers.
+    const measureHeapDelta = (run: (input: number[]) => unknown): number => {
+      const input = generateNumbers(size);
+      (global as any).gc?.();
+      const before = process.memoryUsage().heapUsed;
+      const result = run(input);
+      const delta = process.memoryUsage().heapUsed - before;
+      expect(result).toBeDefined();
+      return delta;
+    };
+
+    it(`should benchmark peak memory of in-place compaction (${size.toLocaleString()} elements)`, () => {
+      const testArray = generateNumbers(size);
+      let mapFilterResult: number[] = [];
+      let inPlaceResult: number[] = [];
+
+      const testName = `Memory - In-Place Compaction (${size.toLocaleString()} elements)`;
+      const testParams = {
+        arraySize: size,
+        iterations,
+        description:
+          "Each iteration copies the input first, since mapFilterInPlace consumes it",
+        heapDeltaBytes: {
+          mapFilter: measureHeapDelta((input) =>
+            mapFilter(input, isEven, double)
+          ),
+          mapFilterInPlace: measureHeapDelta((input) =>
+            mapFilterInPlace(input, isEven, double)
+          ),
+        },
+      };
+
+      const benchmarkFns = [
+        {
+          name: "mapFilter",
+          fn: () => {
+            mapFilterResult = mapFilter(testArray.slice(), isEven, double);
+          },
+          iterations,
+        },
+        {
+          name: "mapFilterInPlace",
+          fn: () => {
+            inPlaceResult = mapFilterInPlace(testArray.slice(), isEven, double);
+          },
+          iterations,
+        },
+      ];
+
+      runBenchmarkSuite(testName, testParams, benchmarkFns);
+
+      expect(inPlaceResult).toEqual(mapFilterResult);
+    });
+  });
+
+  describe("Typed Arrays", () => {
+    const sizes = [
+      { name: "Medium", size: 10000, iterations: 100 },
+      { name: "Large", size: 1000000, iterations: 10 },
+    ];
+
+    const isPositive = (n: number): boolean => n > 0;
+    const scale = (n: number): number => n * 0.5;
+
+    sizes.forEach(({ name, size, iterations }) => {
+      it(`should benchmark ${name.toLowerCase()} Float64Arrays (${size.toLocaleString()} elements)`, () => {
+        const testArray = Float64Array.from(
+          { length: size },
+          (_, i) => Math.sin(i) * 100
+        );
+        let filterMapResult: Float64Array = new Float64Array(0);
+        let mapFilterResult: number[] = [];
+        let typedArrayResult: number[] = [];
+        let typedOutputResult: Float64Array = new Float64Array(0);
+
+        const testName = `Typed Arrays - ${name} Float64Array (${size.toLocaleString()} elements)`;
+        const testParams = {
+          arraySize: size,
+          iterations,
+          description:
+            "mapFilter needs a boxed copy (Array.from) since it only accepts arrays",
+        };
+
+        const benchmarkFns = [
+          {
+            name: ".filter().map()",
+            fn: () => {
+              filterMapResult = testArray.filter(isPositive).map(scale);
+            },
+            iterations,
+          },
+          {
+            name: "mapFilter (Array.from)",
+            fn: () => {
+              mapFilterResult = mapFilter(
+                Array.from(testArray),
+                isPositive,
+                scale
+              );
+            },
+            iterations,
+          },
+          {
+            name: "mapFilterTyped (number[])",
+            fn: () => {
+              typedArrayResult = mapFilterTyped(testArray, isPositive, scale);
+            },
+            iterations,
+          },
+          {
+            name: "mapFilterTyped (Float64Array)",
+            fn: () => {
+              typedOutputResult = mapFilterTyped(
+                testArray,
+                isPositive,
+                scale,
+                Float64Array
+              );
+            },
+            iterations,
+          },
+        ];
+
+        runBenchmarkSuite(testName, testParams, benchmarkFns);
+
+        expect(Array.from(filterMapResult)).toEqual(mapFilterResult);
+        expect(typedArrayResult).toEqual(mapFilterResult);
+        expect(typedOutputResult).toEqual(filterMapResult);
+      });
+    });
+  });
+
   describe("Filter Selectivity", () => {
     const testSize = 10000;
     const iterations = 100;
@@ -219,6 +370,16 @@ describe("Production Performance Benchmarks (Built JS)", () => {
         filter: (n: number): boolean => n % 10 !== 1,
         expectedPassRate: 0.9,
       },
+      {
+        name: "Very Low Selectivity (99% pass)",
+        filter: (n: number): boolean => n % 100 !== 1,
+        expectedPassRate: 0.99,
+      },
+      {
+        name: "No Selectivity (100% pass)",
+        filter: (_: number): boolean => true,
+        expectedPassRate: 1,
+      },
     ];
 
     selectivityTests.forEach(({ name, filter, expectedPassRate }) => {
@@ -297,6 +458,10 @@ describe("Production Performance Benchmarks (Built JS)", () => {
     };
 
     const sparseTests = [
+      {
+        name: "Very Low Sparsity (1% holes)",
+        holePercent: 0.01,
+      },
       {
         name: "Low Sparsity (10% holes)",
         holePercent: 0.1,
@@ -321,6 +486,9 @@ describe("Production Performance Benchmarks (Built JS)", () => {
         let reduceResult: number[] = [];
         let filterMapResult: number[] = [];
         let mapFilterResult: number[] = [];
+        let skipResult: number[] = [];
+        let visitResult: number[] = [];
+        let preserveResult: number[] = [];
 
         const testName = `Sparse Arrays - ${name}`;
         const testParams = {
@@ -352,12 +520,44 @@ describe("Production Performance Benchmarks (Built JS)", () => {
             },
             iterations,
           },
+          {
+            name: "mapFilter (holes: 'skip')",
+            fn: () => {
+              skipResult = mapFilter(sparseArray, isNumber, double, {
+                holes: "skip",
+              });
+            },
+            iterations,
+          },
+          {
+            name: "mapFilter (holes: 'visit')",
+            fn: () => {
+              visitResult = mapFilter(sparseArray, isNumber, double, {
+                holes: "visit",
+              });
+            },
+            iterations,
+          },
+          {
+            name: "mapFilter (holes: 'preserve')",
+            fn: () => {
+              preserveResult = mapFilter(sparseArray, isNumber, double, {
+                holes: "preserve",
+              });
+            },
+            iterations,
+          },
         ];
 
         runBenchmarkSuite(testName, testParams, benchmarkFns);
 
         expect(reduceResult).toEqual(filterMapResult);
         expect(reduceResult).toEqual(mapFilterResult);
+        expect(skipResult).toEqual(mapFilterResult);
+        // `isNumber` rejects the `undefined` that holes are visited with
+        expect(visitResult).toEqual(mapFilterResult);
+        expect(preserveResult.length).toBe(testSize);
+        expect(preserveResult.filter(() => true)).toEqual(mapFilterResult);
       });
     });
   });
@@ -827,4 +1027,237 @@ describe("Production Performance Benchmarks (Built JS)", () => {
       expect(reduceResult).toEqual(mapFilterResult);
     });
   });
+
+  describe("Single Callback filterMap", () => {
+    const testSize = 10000;
+    const iterations = 100;
+
+    const callbackTests = [
+      {
+        name: "Expensive Predicate (JSON parse)",
+        description:
+          "filter and template both need the parsed value; filterMap parses once",
+        testArray: Array.from({ length: testSize }, (_, i) =>
+          JSON.stringify({ id: i, active: i % 2 === 0 })
+        ),
+        filter: (row: string) => JSON.parse(row).active,
+        template: (row: string) => JSON.parse(row).id,
+        fn: (row: string) => {
+          const parsed = JSON.parse(row);
+          return parsed.active ? parsed.id : SKIP;
+        },
+      },
+      {
+        name: "Cheap Predicate",
+        description: "No shared work between filter and template",
+        testArray: Array.from({ length: testSize }, (_, i) => String(i + 1)),
+        filter: (n: string) => n.length % 2 === 0,
+        template: (n: string) => n.length,
+        fn: (n: string) => (n.length % 2 === 0 ? n.length : SKIP),
+      },
+    ];
+
+    callbackTests.forEach(
+      ({ name, description, testArray, filter, template, fn }) => {
+        it(`should benchmark ${name.toLowerCase()}`, () => {
+          let reduceResult: number[] = [];
+          let filterMapResult: number[] = [];
+          let mapFilterResult: number[] = [];
+          let singleCallbackResult: number[] = [];
+
+          const testName = `Single Callback filterMap - ${name}`;
+          const testParams = {
+            arraySize: testSize,
+            iterations,
+            description,
+          };
+
+          const benchmarkFns = [
+            {
+              name: ".reduce()",
+              fn: () => {
+                reduceResult = reduce(testArray, filter, template);
+              },
+              iterations,
+            },
+            {
+              name: ".filter().map()",
+              fn: () => {
+                filterMapResult = testArray.filter(filter).map(template);
+              },
+              iterations,
+            },
+            {
+              name: "mapFilter",
+              fn: () => {
+                mapFilterResult = mapFilter(testArray, filter, template);
+              },
+              iterations,
+            },
+            {
+              name: "filterMap",
+              fn: () => {
+                singleCallbackResult = filterMap(testArray, fn);
+              },
+              iterations,
+            },
+          ];
+
+          runBenchmarkSuite(testName, testParams, benchmarkFns);
+
+          expect(reduceResult).toEqual(filterMapResult);
+          expect(reduceResult).toEqual(mapFilterResult);
+          expect(reduceResult).toEqual(singleCallbackResult);
+        });
+      }
+    );
+  });
+
+  describe("Fused Pipelines", () => {
+    const sizes = [
+      { name: "Medium", size: 10000, iterations: 100 },
+      { name: "Large", size: 1000000, iterations: 10 },
+    ];
+
+    type Order = { id: number; total: number; region: string };
+    type Row = { id: number; net: number };
+
+    const isEu = (order: Order): boolean => order.region === "EU";
+    const toRow = (order: Order): Row => ({
+      id: order.id,
+      net: order.total * 0.8,
+    });
+    const isLarge = (row: Row): boolean => row.net > 40;
+    const toLabel = (row: Row): string => `#${row.id}: ${row.net}`;
+
+    // Built once and reused across runs, the way callers are expected to use it
+    const fused = pipeline()
+      .mapFilter(isEu, toRow)
+      .filter(isLarge)
+      .map(toLabel);
+
+    sizes.forEach(({ name, size, iterations }) => {
+      it(`should benchmark ${name.toLowerCase()} three-stage chains (${size.toLocaleString()} elements)`, () => {
+        const testArray: Order[] = Array.from({ length: size }, (_, i) => ({
+          id: i,
+          total: i % 100,
+          region: i % 3 === 0 ? "US" : "EU",
+        }));
+        let chainedResult: string[] = [];
+        let mapFilterResult: string[] = [];
+        let pipelineResult: string[] = [];
+
+        const testName = `Fused Pipelines - ${name} (${size.toLocaleString()} elements)`;
+        const testParams = {
+          arraySize: size,
+          iterations,
+          description:
+            "mapFilter -> filter -> map; chained calls allocate an intermediate array per stage",
+        };
+
+        const benchmarkFns = [
+          {
+            name: ".filter().map().filter().map()",
+            fn: () => {
+              chainedResult = testArray
+                .filter(isEu)
+                .map(toRow)
+                .filter(isLarge)
+                .map(toLabel);
+            },
+            iterations,
+          },
+          {
+            name: "chained mapFilter",
+            fn: () => {
+              mapFilterResult = mapFilter(
+                mapFilter(testArray, isEu, toRow),
+                isLarge,
+                toLabel
+              );
+            },
+            iterations,
+          },
+          {
+            name: "pipeline",
+            fn: () => {
+              pipelineResult = fused.run(testArray);
+            },
+            iterations,
+          },
+        ];
+
+        runBenchmarkSuite(testName, testParams, benchmarkFns);
+
+        expect(pipelineResult).toEqual(chainedResult);
+        expect(pipelineResult).toEqual(mapFilterResult);
+      });
+    });
+  });
+
+  describe("Top-K Selection", () => {
+    const size = 100000;
+    const iterations = 10;
+    const ks = [10, 100, 1000];
+
+    type Player = { id: number; score: number; active: boolean };
+    type Entry = { id: number; score: number };
+
+    const isActive = (player: Player): boolean => player.active;
+    const toEntry = (player: Player): Entry => ({
+      id: player.id,
+      score: player.score,
+    });
+    const byScoreDesc = (a: Entry, b: Entry): number => b.score - a.score;
+
+    ks.forEach((k) => {
+      it(`should benchmark top ${k} of ${size.toLocaleString()} elements`, () => {
+        const testArray: Player[] = Array.from({ length: size }, (_, i) => ({
+          id: i,
+          score: Math.floor(Math.abs(Math.sin(i)) * 10000),
+          active: i % 4 !== 0,
+        }));
+        let sortResult: Entry[] = [];
+        let topKResult: Entry[] = [];
+
+        const testName = `Top-K Selection - top ${k} (${size.toLocaleString()} elements)`;
+        const testParams = {
+          arraySize: size,
+          iterations,
+          k,
+          description:
+            "75% of elements pass; scores repeat, so ties must keep source order",
+        };
+
+        const benchmarkFns = [
+          {
+            name: "mapFilter + sort + slice",
+            fn: () => {
+              sortResult = mapFilter(testArray, isActive, toEntry)
+                .sort(byScoreDesc)
+                .slice(0, k);
+            },
+            iterations,
+          },
+          {
+            name: "mapFilterTopK",
+            fn: () => {
+              topKResult = mapFilterTopK(
+                testArray,
+                isActive,
+                toEntry,
+                k,
+                byScoreDesc
+              );
+            },
+            iterations,
+          },
+        ];
+
+        runBenchmarkSuite(testName, testParams, benchmarkFns);
+
+        expect(topKResult).toEqual(sortResult);
+      });
+    });
+  });
 });
@@ -0,0 +1,228 @@
+import mapFilter, { mapFilterAsync } from "./index";
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapFilterAsync", () => {
+  it("returns empty Array when given an empty Array", async () => {
+    await expect(
+      mapFilterAsync(
+        [],
+        async () => true,
+        async (x) => x
+      )
+    ).resolves.toEqual([]);
+  });
+
+  it("accepts async filter and template callbacks", async () => {
+    const result = await mapFilterAsync(
+      [1, 2, 3, 4, 5],
+      async (x) => x % 2 === 1,
+      async (x, index) => `${x}-${index}`
+    );
+    expect(result).toEqual(["1-0", "3-2", "5-4"]);
+  });
+
+  it("passes (element, index, array) to both callbacks", async () => {
+    const source = [1, 2];
+    const filter = jest.fn(async () => true);
+    const template = jest.fn(async (x: number) => x);
+    await mapFilterAsync(source, filter, template);
+
+    expect(filter.mock.calls).toEqual([
+      [1, 0, source],
+      [2, 1, source],
+    ]);
+    expect(template).toHaveBeenLastCalledWith(2, 1, source);
+  });
+
+  it("accepts sync callbacks", async () => {
+    const result = await mapFilterAsync(
+      [1, 2, 3],
+      (x) => x > 1,
+      (x) => x * 2
+    );
+    expect(result).toEqual([4, 6]);
+  });
+
+  describe("ordering", () => {
+    it("keeps source order when later elements resolve first", async () => {
+      const array = [30, 10, 20, 0];
+      const result = await mapFilterAsync(
+        array,
+        () => true,
+        async (ms) => {
+          await sleep(ms);
+          return ms;
+        }
+      );
+      expect(result).toEqual(array);
+    });
+
+    it("matches the sync mapFilter output, including holes", async () => {
+      const sparseArray = [1, , 3, , 5, 6];
+      const filter = (x: number | undefined) => x !== 3;
+      const template = (x: number | undefined, index?: number) => `${x}-${index}`;
+
+      const result = await mapFilterAsync(sparseArray, filter, template, {
+        concurrency: 2,
+      });
+      expect(result).toEqual(mapFilter(sparseArray, filter, template));
+      expect(result).toEqual(["1-0", "5-4", "6-5"]);
+    });
+  });
+
+  describe("concurrency", () => {
+    const trackConcurrency = () => {
+      let active = 0;
+      let peak = 0;
+      const template = async (x: number) => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(5);
+        active--;
+        return x;
+      };
+      return { template, peak: () => peak };
+    };
+
+    it("never runs more than `concurrency` elements at once", async () => {
+      const tracker = trackConcurrency();
+      const array = Array.from({ length: 10 }, (_, i) => i);
+
+      const result = await mapFilterAsync(array, () => true, tracker.template, {
+        concurrency: 3,
+      });
+
+      expect(result).toEqual(array);
+      expect(tracker.peak()).toBe(3);
+    });
+
+    it("runs everything at once by default", async () => {
+      const tracker = trackConcurrency();
+      const array = Array.from({ length: 10 }, (_, i) => i);
+
+      await mapFilterAsync(array, () => true, tracker.template);
+
+      expect(tracker.peak()).toBe(10);
+    });
+
+    it("rejects invalid concurrency values", async () => {
+      for (const concurrency of [0, -1, 1.5, NaN]) {
+        await expect(
+          mapFilterAsync(
+            [1],
+            () => true,
+            (x) => x,
+            { concurrency }
+          )
+        ).rejects.toThrow(RangeError);
+      }
+    });
+  });
+
+  describe("abort signal", () => {
+    it("rejects immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("cancelled"));
+      const filter = jest.fn().mockReturnValue(true);
+
+      await expect(
+        mapFilterAsync([1, 2, 3], filter, (x) => x, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("cancelled");
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it("stops scheduling new elements once aborted", async () => {
+      const controller = new AbortController();
+      const template = jest.fn(async (x: number) => {
+        if (x === 1) controller.abort(new Error("cancelled"));
+        await sleep(1);
+        return x;
+      });
+
+      await expect(
+        mapFilterAsync([1, 2, 3, 4], () => true, template, {
+          concurrency: 1,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("cancelled");
+      expect(template).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects with an AbortError when no reason is given", async () => {
+      const controller = new AbortController();
+      const pending = mapFilterAsync(
+        [1],
+        () => sleep(10).then(() => true),
+        (x) => x,
+        { signal: controller.signal }
+      );
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+
+  describe("retries", () => {
+    it("retries a failing element up to `retries` times", async () => {
+      let failures = 2;
+      const template = jest.fn(async (x: number) => {
+        if (x === 2 && failures-- > 0) throw new Error("flaky");
+        return x * 10;
+      });
+
+      const result = await mapFilterAsync([1, 2, 3], () => true, template, {
+        retries: 2,
+      });
+
+      expect(result).toEqual([10, 20, 30]);
+      expect(template).toHaveBeenCalledTimes(5);
+    });
+
+    it("rejects with the last error once retries are exhausted", async () => {
+      const filter = jest.fn(async () => {
+        throw new Error("permission lookup failed");
+      });
+
+      await expect(
+        mapFilterAsync([1], filter, (x) => x, { retries: 1, retryDelay: 1 })
+      ).rejects.toThrow("permission lookup failed");
+      expect(filter).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not retry by default", async () => {
+      const filter = jest.fn(async () => {
+        throw new Error("boom");
+      });
+
+      await expect(mapFilterAsync([1], filter, (x) => x)).rejects.toThrow(
+        "boom"
+      );
+      expect(filter).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects invalid retry counts", async () => {
+      await expect(
+        mapFilterAsync(
+          [1],
+          () => true,
+          (x) => x,
+          { retries: -1 }
+        )
+      ).rejects.toThrow(RangeError);
+    });
+  });
+
+  it("should reject with TypeError when first argument is not an array", async () => {
+    await expect(
+      mapFilterAsync(
+        "string" as any,
+        () => true,
+        (x) => x
+      )
+    ).rejects.toThrow("First argument must be an array");
+  });
+});
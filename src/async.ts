@@ -0,0 +1,129 @@
+import { abortReason, assertArray } from "./utils.js";
+
+export type MapFilterAsyncOptions = {
+  /** Maximum number of elements processed at once. Defaults to `Infinity`. */
+  concurrency?: number;
+  /** Stops scheduling new elements and rejects with `signal.reason` once aborted. */
+  signal?: AbortSignal;
+  /** How many times to retry an element whose filter or template rejected. Defaults to `0`. */
+  retries?: number;
+  /** Milliseconds to wait before each retry. Defaults to `0`. */
+  retryDelay?: number;
+};
+
+type Outcome<U> = { value: U } | undefined;
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Async version of `mapFilter`. Accepts Promise-returning `filter` and `template` callbacks and
+ * runs them with bounded concurrency while keeping the output in source order.
+ *
+ * Holes are skipped exactly like the sync version. A failing element is retried (filter and
+ * template together) up to `retries` times before the returned promise rejects.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => boolean | Promise<boolean>} filter A function that accepts
+ * up to three arguments. Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {MapFilterAsyncOptions} options `concurrency`, `signal`, `retries` and `retryDelay`
+ */
+export async function mapFilterAsync<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | PromiseLike<boolean>,
+  template: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => U | PromiseLike<U>,
+  options: MapFilterAsyncOptions = {}
+): Promise<U[]> {
+  assertArray(array);
+
+  const {
+    concurrency = Infinity,
+    signal,
+    retries = 0,
+    retryDelay = 0,
+  } = options;
+
+  if (!(concurrency >= 1) || (concurrency !== Infinity && !Number.isInteger(concurrency))) {
+    throw new RangeError("concurrency must be a positive integer or Infinity");
+  }
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new RangeError("retries must be a non-negative integer");
+  }
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+
+  const len = array.length;
+  const outcomes: Outcome<U>[] = new Array(len);
+  let next = 0;
+  let stopped = false;
+
+  const processElement = async (element: T, i: number): Promise<Outcome<U>> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (!(await filter(element, i, array))) return undefined;
+        return { value: await template(element, i, array) };
+      } catch (error) {
+        if (attempt >= retries || stopped || signal?.aborted) throw error;
+        if (retryDelay > 0) await delay(retryDelay);
+      }
+    }
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (next < len && !stopped) {
+      if (signal?.aborted) return;
+
+      const i = next++;
+      // Skip holes in the array (e.g., [, , 1, , 2])
+      if (!(i in array)) continue;
+
+      try {
+        outcomes[i] = await processElement(array[i], i);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.min(concurrency, len);
+  const workers = Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  if (signal) {
+    let onAbort!: () => void;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        stopped = true;
+        reject(abortReason(signal));
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      await Promise.race([workers, aborted]);
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  } else {
+    await workers;
+  }
+
+  const newArray: U[] = [];
+  for (let i = 0; i < len; i++) {
+    const outcome = outcomes[i];
+    if (outcome) newArray.push(outcome.value);
+  }
+
+  return newArray;
+}
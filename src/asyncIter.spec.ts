@@ -0,0 +1,139 @@
+import { mapFilterAsyncIter } from "./index";
+
+const collect = async <U>(iterable: AsyncIterable<U>): Promise<U[]> => {
+  const values: U[] = [];
+  for await (const value of iterable) values.push(value);
+  return values;
+};
+
+async function* pages<T>(...batches: T[][]) {
+  for (const batch of batches) {
+    await Promise.resolve();
+    yield* batch;
+  }
+}
+
+describe("mapFilterAsyncIter", () => {
+  const isEven = (x: number) => x % 2 === 0;
+  const double = (x: number) => x * 2;
+
+  it("yields nothing for an empty source", async () => {
+    await expect(
+      collect(mapFilterAsyncIter(pages<number>(), isEven, double))
+    ).resolves.toEqual([]);
+  });
+
+  describe("sources", () => {
+    it("consumes async iterables", async () => {
+      const result = mapFilterAsyncIter(pages([1, 2], [3, 4]), isEven, double);
+      await expect(collect(result)).resolves.toEqual([4, 8]);
+    });
+
+    it("consumes sync iterables", async () => {
+      const result = mapFilterAsyncIter(new Set([1, 2, 3, 4]), isEven, double);
+      await expect(collect(result)).resolves.toEqual([4, 8]);
+    });
+
+    it("skips holes in arrays like mapFilter", async () => {
+      const result = mapFilterAsyncIter(
+        [1, , 3, , 5],
+        () => true,
+        (x, index) => `${x}-${index}`
+      );
+      await expect(collect(result)).resolves.toEqual(["1-0", "3-2", "5-4"]);
+    });
+  });
+
+  describe("callbacks", () => {
+    it("accepts async filter and template callbacks", async () => {
+      const result = mapFilterAsyncIter(
+        pages([1, 2, 3, 4]),
+        async (x) => isEven(x),
+        async (x, index) => `${x}-${index}`
+      );
+      await expect(collect(result)).resolves.toEqual(["2-1", "4-3"]);
+    });
+
+    it("passes the position in the source as the index", async () => {
+      const result = mapFilterAsyncIter(
+        pages(["a", "b"], ["c", "d"]),
+        (_, index) => index! >= 2,
+        (element, index) => `${element}-${index}`
+      );
+      await expect(collect(result)).resolves.toEqual(["c-2", "d-3"]);
+    });
+
+    it("only pulls from the source as values are requested", async () => {
+      const filter = jest.fn(isEven);
+      const iterator = mapFilterAsyncIter(pages([1, 2, 3, 4]), filter, double);
+      expect(filter).not.toHaveBeenCalled();
+
+      await expect(iterator.next()).resolves.toEqual({ value: 4, done: false });
+      expect(filter).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects when a callback rejects", async () => {
+      const result = mapFilterAsyncIter(
+        pages([1]),
+        async () => {
+          throw new Error("lookup failed");
+        },
+        double
+      );
+      await expect(collect(result)).rejects.toThrow("lookup failed");
+    });
+  });
+
+  describe("return() propagation", () => {
+    it("closes the upstream source when the consumer breaks", async () => {
+      let closed = false;
+      async function* cursor() {
+        try {
+          yield 1;
+          yield 2;
+          yield 3;
+        } finally {
+          closed = true;
+        }
+      }
+
+      for await (const value of mapFilterAsyncIter(
+        cursor(),
+        () => true,
+        double
+      )) {
+        expect(value).toBe(2);
+        break;
+      }
+      expect(closed).toBe(true);
+    });
+
+    it("calls return() on a hand-written async iterator", async () => {
+      const returnFn = jest.fn(async () => ({
+        done: true as const,
+        value: undefined,
+      }));
+      let n = 0;
+      const source: AsyncIterable<number> = {
+        [Symbol.asyncIterator]: () => ({
+          next: async () => ({ done: false, value: n++ }),
+          return: returnFn,
+        }),
+      };
+
+      const iterator = mapFilterAsyncIter(source, isEven, double);
+      await iterator.next();
+      await iterator.return!();
+
+      expect(returnFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("should throw TypeError eagerly when first argument is not iterable", () => {
+    [null, undefined, 123, {}].forEach((input) => {
+      expect(() => mapFilterAsyncIter(input as any, isEven, double)).toThrow(
+        "First argument must be iterable"
+      );
+    });
+  });
+});
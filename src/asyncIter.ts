@@ -0,0 +1,57 @@
+import { assertIterable } from "./utils.js";
+
+async function* generate<T, U>(
+  iterable: AsyncIterable<T> | Iterable<T>,
+  filter: (element: T, index: number) => boolean | PromiseLike<boolean>,
+  template: (element: T, index: number) => U | PromiseLike<U>
+): AsyncGenerator<U, void, undefined> {
+  if (Array.isArray(iterable)) {
+    const array: ReadonlyArray<T> = iterable;
+    for (let i = 0; i < array.length; i++) {
+      // Skip holes in the array (e.g., [, , 1, , 2])
+      if (!(i in array)) continue;
+
+      const element: T = await array[i];
+      if (await filter(element, i)) {
+        yield template(element, i);
+      }
+    }
+    return;
+  }
+
+  let i = 0;
+  for await (const element of iterable) {
+    if (await filter(element, i)) {
+      yield template(element, i);
+    }
+    i++;
+  }
+}
+
+/**
+ * Streaming version of `mapFilter` for async sources such as paginated API cursors or database readers.
+ *
+ * Accepts an `AsyncIterable` (or a sync iterable) and sync or async callbacks, and yields mapped values one at
+ * a time as the consumer pulls them. Breaking out of a `for await` loop calls `return()` on the source so it can
+ * release its resources. The index passed to the callbacks is the element's position in the source.
+ *
+ * @param {AsyncIterable | Iterable} iterable The source of elements to be filterMapped
+ * @param {(element: any, index: number) => boolean | Promise<boolean>} filter A function that accepts up to two
+ * arguments. Called once for each element pulled from the source.
+ * @param {(element: any, index: number) => any} template A function that accepts up to two arguments. Called once
+ * for each element that has a truthy predicate from the `filter`.
+ */
+export function mapFilterAsyncIter<T, U>(
+  iterable: AsyncIterable<T> | Iterable<T>,
+  filter: (element: T, index: number) => boolean | PromiseLike<boolean>,
+  template: (element: T, index: number) => U | PromiseLike<U>
+): AsyncIterableIterator<U> {
+  if (
+    iterable == null ||
+    typeof (iterable as AsyncIterable<T>)[Symbol.asyncIterator] !== "function"
+  ) {
+    assertIterable(iterable);
+  }
+
+  return generate(iterable, filter, template);
+}
@@ -0,0 +1,156 @@
+import mapFilter, { mapFilterChunked, STOP } from "./index";
+
+// Keeps the CPU busy for `ms`, like an expensive callback would
+const spin = (ms: number): void => {
+  const end = performance.now() + ms;
+  while (performance.now() < end);
+};
+
+describe("mapFilterChunked", () => {
+  it("resolves to the same result as mapFilter, including holes and indices", async () => {
+    const source = Array.from({ length: 50000 }, (_, i) => i);
+    delete source[3];
+    delete source[40000];
+    const filter = (n: number, index: number) => n % 3 === 0 || index === 1;
+    const template = (n: number, index: number, array: readonly number[]) =>
+      `${n}@${index}/${array.length}`;
+
+    await expect(mapFilterChunked(source, filter, template)).resolves.toEqual(
+      mapFilter(source, filter, template)
+    );
+  });
+
+  it("yields to the event loop between slices", async () => {
+    let timerRan = false;
+    const seen: boolean[] = [];
+    setTimeout(() => (timerRan = true), 0);
+
+    await mapFilterChunked(
+      Array.from({ length: 40 }, (_, i) => i),
+      () => (spin(0.5), true),
+      (n) => n,
+      { budget: 2, onProgress: () => seen.push(timerRan) }
+    );
+
+    expect(seen.length).toBeGreaterThan(1);
+    expect(seen[0]).toBe(false);
+    expect(seen[seen.length - 1]).toBe(true);
+  });
+
+  it("reports progress after every slice", async () => {
+    const onProgress = jest.fn();
+    await mapFilterChunked(
+      Array.from({ length: 30 }, (_, i) => i),
+      () => (spin(0.5), true),
+      (n) => n,
+      { budget: 2, onProgress }
+    );
+
+    const processed = onProgress.mock.calls.map(([count]) => count);
+    expect(processed.length).toBeGreaterThan(1);
+    expect(processed).toEqual([...processed].sort((a, b) => a - b));
+    expect(onProgress).toHaveBeenLastCalledWith(30, 30);
+    expect(onProgress.mock.calls.every(([, total]) => total === 30)).toBe(true);
+  });
+
+  it("finishes in one slice when the budget allows", async () => {
+    const onProgress = jest.fn();
+    const result = await mapFilterChunked(
+      [1, 2, 3, 4],
+      (n) => n % 2 === 0,
+      (n) => n * 10,
+      { onProgress }
+    );
+
+    expect(result).toEqual([20, 40]);
+    expect(onProgress.mock.calls).toEqual([[4, 4]]);
+  });
+
+  it("ends iteration on STOP", async () => {
+    const filter = jest.fn((n: number) => (n === 3 ? STOP : true));
+    const result = await mapFilterChunked([1, 2, 3, 4], filter, (n) => n);
+
+    expect(result).toEqual([1, 2]);
+    expect(filter).toHaveBeenCalledTimes(3);
+  });
+
+  describe("abort signal", () => {
+    it("rejects immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("cancelled"));
+      const filter = jest.fn(() => true);
+
+      await expect(
+        mapFilterChunked([1, 2], filter, (n) => n, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("cancelled");
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it("stops between slices once aborted", async () => {
+      const controller = new AbortController();
+      const filter = jest.fn(() => (spin(0.5), true));
+
+      await expect(
+        mapFilterChunked(
+          Array.from({ length: 200 }, (_, i) => i),
+          filter,
+          (n) => n,
+          {
+            budget: 2,
+            signal: controller.signal,
+            onProgress: () => controller.abort(new Error("cancelled")),
+          }
+        )
+      ).rejects.toThrow("cancelled");
+      expect(filter.mock.calls.length).toBeLessThan(200);
+    });
+
+    it("stops when a callback aborts", async () => {
+      const controller = new AbortController();
+      const filter = jest.fn((n: number) => {
+        if (n === 1) controller.abort();
+        return true;
+      });
+
+      await expect(
+        mapFilterChunked([0, 1, 2, 3], filter, (n) => n, {
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+
+  it("rejects when a callback throws", async () => {
+    await expect(
+      mapFilterChunked(
+        [1, 2],
+        () => true,
+        () => {
+          throw new Error("boom");
+        }
+      )
+    ).rejects.toThrow("boom");
+  });
+
+  it("validates its arguments", async () => {
+    await expect(
+      mapFilterChunked(
+        "abc" as any,
+        () => true,
+        (x) => x
+      )
+    ).rejects.toThrow(new TypeError("First argument must be an array"));
+    for (const budget of [0, -1, NaN, Infinity]) {
+      await expect(
+        mapFilterChunked(
+          [1],
+          () => true,
+          (x) => x,
+          { budget }
+        )
+      ).rejects.toThrow(new RangeError("budget must be a positive number"));
+    }
+  });
+});
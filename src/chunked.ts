@@ -0,0 +1,119 @@
+import { STOP } from "./sentinels.js";
+import { abortReason, assertArray } from "./utils.js";
+
+export type MapFilterChunkedOptions = {
+  /** Milliseconds of work per slice before yielding to the event loop. Defaults to `8`. */
+  budget?: number;
+  /** Called after every slice with the number of indices visited so far and the array length */
+  onProgress?: (processed: number, total: number) => void;
+  /** Stops before the next batch of elements and rejects with `signal.reason` once aborted */
+  signal?: AbortSignal;
+};
+
+// setImmediate runs after pending I/O in Node and Electron; browsers only have the (clamped) setTimeout
+const yieldToEventLoop = (): Promise<void> =>
+  new Promise((resolve) =>
+    typeof setImmediate === "function"
+      ? setImmediate(resolve)
+      : setTimeout(resolve, 0)
+  );
+
+/**
+ * When `filter` is a type guard (`(element: T) => element is S`), the `template` receives the
+ * narrowed element type `S`.
+ */
+export function mapFilterChunked<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options?: MapFilterChunkedOptions
+): Promise<U[]>;
+/**
+ * Version of `mapFilter` for large arrays on a busy event loop. The array is processed in slices of about
+ * `budget` milliseconds, and control returns to the event loop between slices, so timers, I/O and rendering keep
+ * running.
+ *
+ * Resolves to the same array `mapFilter` returns: callbacks receive `(element, index, array)`, holes are skipped
+ * and `STOP` ends iteration. The array should not be modified while the work is in progress.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three
+ * arguments. Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {MapFilterChunkedOptions} options `budget`, `onProgress` and `signal`
+ */
+export function mapFilterChunked<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options?: MapFilterChunkedOptions
+): Promise<U[]>;
+export async function mapFilterChunked<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: MapFilterChunkedOptions = {}
+): Promise<U[]> {
+  assertArray(array);
+
+  const { budget = 8, onProgress, signal } = options;
+  if (!(budget > 0) || budget === Infinity) {
+    throw new RangeError("budget must be a positive number");
+  }
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+
+  const len = array.length;
+  const newArray: U[] = [];
+  let i = 0;
+  // Elements processed between clock reads. It adapts to the cost of the callbacks so cheap ones don't pay
+  // for a clock read each, and expensive ones can't overrun the budget by much
+  let stride = 1;
+
+  while (i < len) {
+    const deadline = performance.now() + budget;
+    for (;;) {
+      const start = performance.now();
+      const end = i + stride < len ? i + stride : len;
+      for (; i < end; i++) {
+        // Skip holes in the array (e.g., [, , 1, , 2])
+        const element: T = array[i];
+        if (element === undefined && !(i in array)) continue;
+
+        const predicate = filter(element, i, array);
+        if (!predicate) continue;
+        if (predicate === STOP) {
+          i = len;
+          break;
+        }
+
+        newArray.push(template(element, i, array));
+      }
+      if (signal?.aborted) throw abortReason(signal);
+      if (i >= len) break;
+
+      const now = performance.now();
+      if (now - start < budget / 8) stride *= 2;
+      else if (now - start > budget / 2 && stride > 1) stride >>= 1;
+      if (now >= deadline) break;
+    }
+
+    if (onProgress !== undefined) onProgress(i, len);
+    if (i >= len) break;
+
+    await yieldToEventLoop();
+    if (signal?.aborted) throw abortReason(signal);
+  }
+
+  return newArray;
+}
@@ -0,0 +1,173 @@
+import mapFilter, {
+  Collector,
+  mapFilterInto,
+  toArray,
+  toJoinedString,
+  toMap,
+  toSet,
+  toSum,
+} from "./index";
+
+type Product = { sku: string; category: string; price: number };
+
+const products: Product[] = [
+  { sku: "a1", category: "tools", price: 10 },
+  { sku: "b2", category: "garden", price: 25 },
+  { sku: "c3", category: "tools", price: 5 },
+  { sku: "d4", category: "kitchen", price: 40 },
+];
+const isCheap = (product: Product) => product.price < 30;
+
+describe("mapFilterInto", () => {
+  describe("built-in collectors", () => {
+    it("toArray matches mapFilter", () => {
+      const toSku = (product: Product) => product.sku;
+      const result: string[] = mapFilterInto(
+        products,
+        isCheap,
+        toSku,
+        toArray()
+      );
+      expect(result).toEqual(mapFilter(products, isCheap, toSku));
+    });
+
+    it("toSet drops duplicate mapped values", () => {
+      const result: Set<string> = mapFilterInto(
+        products,
+        isCheap,
+        (product) => product.category,
+        toSet()
+      );
+      expect(result).toEqual(new Set(["tools", "garden"]));
+    });
+
+    it("toMap collects [key, value] pairs", () => {
+      const result = mapFilterInto(
+        products,
+        isCheap,
+        (product) => [product.sku, product.price] as const,
+        toMap<string, number>()
+      );
+      expect(result).toEqual(
+        new Map([
+          ["a1", 10],
+          ["b2", 25],
+          ["c3", 5],
+        ])
+      );
+      expect(result.get("a1")! + 1).toBe(11);
+    });
+
+    it("toJoinedString joins mapped values with the separator", () => {
+      expect(
+        mapFilterInto(
+          products,
+          isCheap,
+          (product) => product.sku,
+          toJoinedString(", ")
+        )
+      ).toBe("a1, b2, c3");
+      expect(
+        mapFilterInto(
+          [1, null, 2],
+          () => true,
+          (x) => x,
+          toJoinedString()
+        )
+      ).toBe("1,,2");
+    });
+
+    it("toSum adds up mapped numbers", () => {
+      const total: number = mapFilterInto(
+        products,
+        isCheap,
+        (product) => product.price,
+        toSum()
+      );
+      expect(total).toBe(40);
+    });
+
+    it("creates a fresh accumulator for every call", () => {
+      const collector = toArray<number>();
+      const first = mapFilterInto(
+        [1, 2],
+        () => true,
+        (x) => x,
+        collector
+      );
+      const second = mapFilterInto(
+        [3],
+        () => true,
+        (x) => x,
+        collector
+      );
+
+      expect(first).toEqual([1, 2]);
+      expect(second).toEqual([3]);
+    });
+  });
+
+  describe("custom collectors", () => {
+    it("uses init, add and finish of a user-defined sink", () => {
+      const maxPrice: Collector<number, number, number | undefined> = {
+        init: () => -Infinity,
+        add: (max, value) => Math.max(max, value),
+        finish: (max) => (max === -Infinity ? undefined : max),
+      };
+
+      expect(mapFilterInto(products, isCheap, (p) => p.price, maxPrice)).toBe(
+        25
+      );
+      expect(
+        mapFilterInto(
+          products,
+          () => false,
+          (p) => p.price,
+          maxPrice
+        )
+      ).toBeUndefined();
+    });
+
+    it("only adds values that pass the filter", () => {
+      const add = jest.fn((acc: string[], value: string) => [...acc, value]);
+      const collector = { init: () => [], add, finish: (acc: string[]) => acc };
+
+      mapFilterInto(products, isCheap, (p) => p.sku, collector);
+
+      expect(add).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it("skips holes", () => {
+    const sparseArray = [1, , 3];
+    expect(
+      mapFilterInto(
+        sparseArray,
+        () => true,
+        (x, index) => `${x}-${index}`,
+        toJoinedString("|")
+      )
+    ).toBe("1-0|3-2");
+  });
+
+  it("passes (element, index, array) to both callbacks", () => {
+    const source = ["a", "b"];
+    const filter = jest.fn(() => true);
+    const template = jest.fn((x: string) => x);
+    mapFilterInto(source, filter, template, toArray());
+
+    expect(filter).toHaveBeenCalledWith("b", 1, source);
+    expect(template).toHaveBeenCalledWith("a", 0, source);
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() =>
+      mapFilterInto(
+        123 as any,
+        () => true,
+        (x) => x,
+        toArray()
+      )
+    ).toThrow("First argument must be an array");
+  });
+});
@@ -0,0 +1,133 @@
+import { assertArray } from "./utils.js";
+
+/**
+ * Receives the mapped values of a `mapFilterInto` call.
+ *
+ * `init` creates the accumulator, `add` folds one mapped value into it (returning the new accumulator, which
+ * may be the same mutable object), and `finish` turns the accumulator into the final result.
+ */
+export interface Collector<U, A, R> {
+  init(): A;
+  add(accumulator: A, value: U): A;
+  finish(accumulator: A): R;
+}
+
+/**
+ * Collects mapped values into an array, like `mapFilter` does.
+ */
+export function toArray<U>(): Collector<U, U[], U[]> {
+  return {
+    init: () => [],
+    add: (array, value) => {
+      array.push(value);
+      return array;
+    },
+    finish: (array) => array,
+  };
+}
+
+/**
+ * Collects mapped values into a `Set`, dropping duplicates.
+ */
+export function toSet<U>(): Collector<U, Set<U>, Set<U>> {
+  return {
+    init: () => new Set(),
+    add: (set, value) => set.add(value),
+    finish: (set) => set,
+  };
+}
+
+/**
+ * Collects `[key, value]` pairs returned by the template into a `Map`. Later pairs overwrite earlier ones.
+ */
+export function toMap<K, V>(): Collector<
+  readonly [K, V],
+  Map<K, V>,
+  Map<K, V>
+> {
+  return {
+    init: () => new Map(),
+    add: (map, [key, value]) => map.set(key, value),
+    finish: (map) => map,
+  };
+}
+
+/**
+ * Joins mapped values into a single string, like `Array.prototype.join`.
+ *
+ * @param {string} separator Inserted between values. Defaults to `","`.
+ */
+export function toJoinedString(
+  separator: string = ","
+): Collector<unknown, string[], string> {
+  return {
+    init: () => [],
+    add: (parts, value) => {
+      parts.push(value == null ? "" : String(value));
+      return parts;
+    },
+    finish: (parts) => parts.join(separator),
+  };
+}
+
+/**
+ * Adds up mapped numbers without storing them.
+ */
+export function toSum(): Collector<number, number, number> {
+  return {
+    init: () => 0,
+    add: (total, value) => total + value,
+    finish: (total) => total,
+  };
+}
+
+/**
+ * When `filter` is a type guard, the `template` receives the narrowed element type `S`.
+ */
+export function mapFilterInto<T, S extends T, U, A, R>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  collector: Collector<U, A, R>
+): R;
+/**
+ * Version of `mapFilter` that writes mapped values straight into a collector (a `Set`, a `Map`, a joined
+ * string, a running sum or a custom sink) instead of an array. The return type follows the collector.
+ *
+ * Holes are skipped like `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {Collector} collector Receives each mapped value and produces the result
+ */
+export function mapFilterInto<T, U, A, R>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  collector: Collector<U, A, R>
+): R;
+export function mapFilterInto<T, U, A, R>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  collector: Collector<U, A, R>
+): R {
+  assertArray(array);
+
+  let accumulator = collector.init();
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (filter(element, i, array)) {
+      accumulator = collector.add(accumulator, template(element, i, array));
+    }
+  }
+
+  return collector.finish(accumulator);
+}
@@ -0,0 +1,57 @@
+/**
+ * Wraps an error thrown by a `filter` or `template` callback with the element that caused it.
+ */
+export class MapFilterError<T = unknown> extends Error {
+  /** The error thrown by the callback */
+  readonly cause: unknown;
+  /** Index of the element in the source array */
+  readonly index: number;
+  /** The element the callback was called with */
+  readonly element: T;
+  /** Which callback threw */
+  readonly callback: "filter" | "template";
+
+  constructor(
+    cause: unknown,
+    index: number,
+    element: T,
+    callback: "filter" | "template"
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${callback} threw at index ${index}: ${reason}`);
+    this.name = "MapFilterError";
+    this.cause = cause;
+    this.index = index;
+    this.element = element;
+    this.callback = callback;
+  }
+}
+
+/**
+ * Thrown when a declarative spec (such as a predicate object) can't be compiled. `path` points to the offending
+ * part of the spec, e.g. `$or[1].age.$gte`.
+ */
+export class SpecError extends Error {
+  /** Location of the offending value inside the spec; empty for the spec itself */
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(path === "" ? message : `${message} (at ${path})`);
+    this.name = "SpecError";
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when an expression string can't be compiled. `column` is the 1-based position of the offending token.
+ */
+export class ExpressionError extends SyntaxError {
+  /** 1-based column of the offending token in the source */
+  readonly column: number;
+
+  constructor(message: string, column: number) {
+    super(`${message} at column ${column}`);
+    this.name = "ExpressionError";
+    this.column = column;
+  }
+}
@@ -0,0 +1,260 @@
+import mapFilter, {
+  compileFilter,
+  compileTemplate,
+  ExpressionError,
+} from "./index";
+
+type User = {
+  name: string;
+  age: number;
+  tags: string[];
+  address?: { city: string } | null;
+};
+
+const users: User[] = [
+  {
+    name: "Ana",
+    age: 34,
+    tags: ["beta", "admin"],
+    address: { city: "Lisbon" },
+  },
+  { name: "Ben", age: 17, tags: ["beta"], address: null },
+  { name: "Chen", age: 52, tags: [] },
+];
+
+const evaluate = (source: string, element: unknown = {}, index?: number) =>
+  compileTemplate(source)(element, index);
+
+const compileError = (source: string): ExpressionError => {
+  try {
+    compileTemplate(source);
+  } catch (error) {
+    return error as ExpressionError;
+  }
+  throw new Error("expected the expression to be rejected");
+};
+
+describe("compileFilter / compileTemplate", () => {
+  it("compiles into callbacks usable with mapFilter", () => {
+    const result = mapFilter(
+      users,
+      compileFilter('age >= 18 && tags.includes("beta")'),
+      compileTemplate<string>('name + " (" + age + ")"')
+    );
+    expect(result).toEqual(["Ana (34)"]);
+  });
+
+  it("converts filter results to booleans", () => {
+    const filter = compileFilter("address");
+    expect(users.map((user) => filter(user))).toEqual([true, false, false]);
+  });
+
+  describe("language", () => {
+    it.each([
+      ["42", 42],
+      ["1.5e3", 1500],
+      [".5", 0.5],
+      ["1.", 1],
+      ["2.e2 + 1.", 201],
+      ['"a\\"b\\n"', 'a"b\n'],
+      ["'\\u0041'", "A"],
+      ["[1, 'two', null]", [1, "two", null]],
+      ["[]", []],
+      ["true && !false", true],
+      ["undefined ?? 'fallback'", "fallback"],
+      ["0 || 'fallback'", "fallback"],
+      ["1 + 2 * 3 - 4 / 2", 5],
+      ["(1 + 2) * 3", 9],
+      ["7 % 4", 3],
+      ["-(2 + 3)", -5],
+      ["1 < 2 == 2 > 1", true],
+      ["1 > 2 ? 'yes' : 2 > 1 ? 'maybe' : 'no'", "maybe"],
+    ])("evaluates %s", (source, expected) => {
+      expect(evaluate(source)).toEqual(expected);
+    });
+
+    it("compares strictly", () => {
+      expect(evaluate('age == "34"', users[0])).toBe(false);
+      expect(evaluate("age == 34", users[0])).toBe(true);
+      expect(evaluate("null != undefined")).toBe(true);
+      expect(evaluate("age !== 34", users[0])).toBe(false);
+    });
+
+    it("reads property paths, indices and the element itself", () => {
+      expect(evaluate("address.city", users[0])).toBe("Lisbon");
+      expect(evaluate("address.city", users[1])).toBeUndefined();
+      expect(evaluate("missing.deeply.nested", users[0])).toBeUndefined();
+      expect(evaluate("tags[1]", users[0])).toBe("admin");
+      expect(evaluate("tags.length", users[0])).toBe(2);
+      expect(evaluate('$["name"]', users[0])).toBe("Ana");
+      expect(evaluate("$ * 2", 21)).toBe(42);
+      expect(evaluate("$index", users[0], 3)).toBe(3);
+    });
+
+    it("calls built-in functions and whitelisted methods", () => {
+      expect(evaluate("max(age, 40) + floor(2.7)", users[0])).toBe(42);
+      expect(evaluate("string(age) + number('1')", users[0])).toBe("341");
+      expect(evaluate('name.toLowerCase().startsWith("an")', users[0])).toBe(
+        true
+      );
+      expect(evaluate('tags.join("|")', users[0])).toBe("beta|admin");
+      expect(evaluate("[1, 2, 3].slice(1).indexOf(3)")).toBe(1);
+    });
+
+    it("calls functions from options", () => {
+      const template = compileTemplate("initials(name)", {
+        functions: { initials: (name: string) => name.slice(0, 1) },
+      });
+      expect(mapFilter(users, () => true, template)).toEqual(["A", "B", "C"]);
+    });
+
+    it("throws a TypeError when a method is called on the wrong type", () => {
+      expect(() => evaluate("age.includes(3)", users[0])).toThrow(
+        new TypeError("includes() is not available on number")
+      );
+      expect(() => evaluate("address.trim()", users[1])).toThrow(TypeError);
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("report the column of the offending token", () => {
+      const error = compileError("age >= 18 && && active");
+
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect(error).toBeInstanceOf(SyntaxError);
+      expect(error.name).toBe("ExpressionError");
+      expect(error.column).toBe(14);
+      expect(error.message).toBe("Unexpected token && at column 14");
+    });
+
+    it.each([
+      ["", 1, "Unexpected end of expression"],
+      ["age >=", 7, "Unexpected end of expression"],
+      ["(age", 5, "Unexpected end of expression"],
+      ["age 18", 5, "Unexpected token 18"],
+      ["name = 'x'", 6, 'Unexpected character "="'],
+      ["'open", 1, "Unterminated string"],
+      ["'\\x41'", 2, "Invalid escape sequence"],
+      ["12abc", 1, 'Invalid number "12a"'],
+      ["a.", 3, "Unexpected end of expression"],
+      ["a.1", 2, "Unexpected token .1"],
+      ["a ? b", 6, "Unexpected end of expression"],
+      ["exec(x)", 1, 'Unknown function "exec"'],
+      ["name.replace('a', 'b')", 6, 'Unknown method "replace"'],
+      ["tags[0]()", 8, "Only named functions and methods can be called"],
+      ["(max)(1)", 6, "Only named functions and methods can be called"],
+    ])("rejects %j at column %d", (source, column, message) => {
+      const error = compileError(source);
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect(error.column).toBe(column);
+      expect(error.message).toContain(message);
+    });
+
+    it.each([
+      ["parentheses", "(".repeat(200) + "1" + ")".repeat(200)],
+      ["unary operators", "!".repeat(10000) + "a"],
+      ["member accesses", "a" + ".b".repeat(10000)],
+      ["method calls", "name" + ".trim()".repeat(10000)],
+    ])("rejects %s nested too deeply", (_, source) => {
+      const error = compileError(source);
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect(error.message).toContain("nested too deeply");
+    });
+
+    it("accepts chains up to the nesting limit", () => {
+      expect(evaluate("!".repeat(99) + "a", { a: false })).toBe(true);
+    });
+
+    it("does not count flat binary and logical chains as nesting", () => {
+      expect(evaluate(Array(10000).fill("1").join(" + "))).toBe(10000);
+      expect(evaluate("10 - 3 - 2 * 2 - 1")).toBe(2);
+      expect(evaluate(Array(10000).fill("a").join(" && "), { a: 1 })).toBe(1);
+
+      const regions = Array.from(
+        { length: 150 },
+        (_, i) => `region == "r${i}"`
+      );
+      const filter = compileFilter(regions.join(" || "));
+      expect(filter({ region: "r149" })).toBe(true);
+      expect(filter({ region: "r150" })).toBe(false);
+    });
+
+    it("short-circuits flat logical chains", () => {
+      const seen = jest.fn(() => true);
+      const template = compileTemplate("seen() && 0 && seen() && seen()", {
+        functions: { seen },
+      });
+      expect(template({})).toBe(0);
+      expect(seen).toHaveBeenCalledTimes(1);
+      expect(evaluate("0 || '' || 'x' || 1")).toBe("x");
+      expect(evaluate("null ?? undefined ?? 0 ?? 1")).toBe(0);
+      expect(evaluate("null ?? undefined")).toBeUndefined();
+    });
+
+    it("rejects a source that is not a string", () => {
+      expect(() => compileFilter(42 as any)).toThrow(
+        new TypeError("Expression must be a string")
+      );
+    });
+  });
+
+  describe("injection attempts", () => {
+    it("reads inherited members as undefined", () => {
+      expect(evaluate("constructor", {})).toBeUndefined();
+      expect(evaluate("__proto__", {})).toBeUndefined();
+      expect(evaluate("name.constructor", users[0])).toBeUndefined();
+      expect(evaluate('$["constructor"]', {})).toBeUndefined();
+      expect(evaluate('$["__proto__"]["polluted"]', {})).toBeUndefined();
+      expect(evaluate("toString", {})).toBeUndefined();
+      expect(evaluate("tags.map", users[0])).toBeUndefined();
+    });
+
+    it("reads own __proto__ keys without touching the prototype", () => {
+      const element = JSON.parse('{ "__proto__": { "admin": true } }');
+      expect(evaluate("__proto__.admin", element)).toBe(true);
+      expect(({} as { admin?: boolean }).admin).toBeUndefined();
+    });
+
+    it("rejects calls that would reach the Function constructor", () => {
+      for (const source of [
+        'constructor.constructor("return process")()',
+        'name.constructor("return process")',
+        '$["constructor"]["constructor"]("return process")()',
+        "toString()",
+        "valueOf()",
+        "__proto__.toString()",
+        "eval('1')",
+        "Function('return 1')()",
+      ]) {
+        expect(() => compileTemplate(source)).toThrow(ExpressionError);
+      }
+    });
+
+    it("only looks up own functions from options", () => {
+      expect(compileError('constructor("x")').message).toContain(
+        'Unknown function "constructor"'
+      );
+      expect(() =>
+        compileTemplate("hasOwnProperty('a')", { functions: {} })
+      ).toThrow(ExpressionError);
+    });
+
+    it("does not dispatch to methods defined on the element", () => {
+      const element = {
+        tags: { includes: () => true },
+        name: { toLowerCase: () => "hijacked" },
+      };
+      expect(() => evaluate('tags.includes("beta")', element)).toThrow(
+        TypeError
+      );
+      expect(() => evaluate("name.toLowerCase()", element)).toThrow(TypeError);
+    });
+
+    it("does not mutate the element", () => {
+      const element = { count: 1 };
+      expect(() => compileFilter("count = 2")).toThrow(ExpressionError);
+      evaluate("count + 1", element);
+      expect(element).toEqual({ count: 1 });
+    });
+  });
+});
@@ -0,0 +1,575 @@
+import { ExpressionError } from "./errors.js";
+
+export type ExpressionOptions = {
+  /** Extra functions the expression may call by name, in addition to the built-in ones */
+  functions?: Record<string, (...args: never[]) => unknown>;
+};
+
+type Token = {
+  type: "number" | "string" | "identifier" | "punctuator" | "end";
+  value: string | number;
+  /** 0-based offsets of the token in the source */
+  start: number;
+  end: number;
+};
+
+type Evaluate = (element: unknown, index: number | undefined) => unknown;
+
+// Whitelisted functions declare their own parameter types, while the arguments an expression passes are only
+// known at runtime, so they are stored as `Callable` and called as `Invoke`
+type Callable = (...args: never[]) => unknown;
+type Invoke = (...args: unknown[]) => unknown;
+
+// What an expression refers to, so calls can be checked against the whitelist while parsing
+type Callee =
+  | { kind: "identifier"; name: string; start: number }
+  | { kind: "member"; object: Evaluate; name: string; start: number }
+  | { kind: "value" };
+
+const MAX_DEPTH = 100;
+
+// Longest first, so `===` is not read as `==` followed by `=`
+const PUNCTUATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  ".",
+  ",",
+  "(",
+  ")",
+  "[",
+  "]",
+  "?",
+  ":",
+];
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  "0": "\0",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+const BUILTIN_FUNCTIONS = new Map<string, Callable>([
+  ["abs", Math.abs],
+  ["ceil", Math.ceil],
+  ["floor", Math.floor],
+  ["round", Math.round],
+  ["min", Math.min],
+  ["max", Math.max],
+  ["number", Number],
+  ["string", String],
+]);
+
+// Methods are taken from the prototypes up front and only applied to receivers of the matching type, so an
+// element can't substitute its own implementation
+const STRING_METHODS = new Map<string, Callable>([
+  ["includes", String.prototype.includes],
+  ["startsWith", String.prototype.startsWith],
+  ["endsWith", String.prototype.endsWith],
+  ["indexOf", String.prototype.indexOf],
+  ["slice", String.prototype.slice],
+  ["split", String.prototype.split],
+  ["toLowerCase", String.prototype.toLowerCase],
+  ["toUpperCase", String.prototype.toUpperCase],
+  ["trim", String.prototype.trim],
+]);
+
+const ARRAY_METHODS = new Map<string, Callable>([
+  ["includes", Array.prototype.includes],
+  ["indexOf", Array.prototype.indexOf],
+  ["join", Array.prototype.join],
+  ["slice", Array.prototype.slice],
+]);
+
+// Operands are cast for the type checker only: at runtime they follow JavaScript's rules, so `+` also
+// concatenates strings and `<` compares them
+const BINARY_OPERATORS: Record<string, (a: unknown, b: unknown) => unknown> = {
+  // `==` and `!=` are strict too, so no type coercion happens behind the operator's back
+  "===": (a, b) => a === b,
+  "==": (a, b) => a === b,
+  "!==": (a, b) => a !== b,
+  "!=": (a, b) => a !== b,
+  "<": (a, b) => (a as number) < (b as number),
+  "<=": (a, b) => (a as number) <= (b as number),
+  ">": (a, b) => (a as number) > (b as number),
+  ">=": (a, b) => (a as number) >= (b as number),
+  "+": (a, b) => (a as number) + (b as number),
+  "-": (a, b) => (a as number) - (b as number),
+  "*": (a, b) => (a as number) * (b as number),
+  "/": (a, b) => (a as number) / (b as number),
+  "%": (a, b) => (a as number) % (b as number),
+};
+
+// Binary operators from the loosest to the tightest binding
+const PRECEDENCE = [
+  ["===", "!==", "==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+function isIdentifierStart(char: string): boolean {
+  return /[A-Za-z_$]/.test(char);
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= "0" && char <= "9";
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (isDigit(char) || (char === "." && isDigit(source[i + 1]))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      const text = match![0];
+      i += text.length;
+      if (i < source.length && isIdentifierStart(source[i])) {
+        throw new ExpressionError(
+          `Invalid number "${text}${source[i]}"`,
+          start + 1
+        );
+      }
+      tokens.push({ type: "number", value: Number(text), start, end: i });
+    } else if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (source[i] !== char) {
+        if (i >= source.length) {
+          throw new ExpressionError("Unterminated string", start + 1);
+        }
+        if (source[i] === "\\") {
+          const escape = source[i + 1];
+          if (
+            escape === "u" &&
+            /^[0-9a-fA-F]{4}$/.test(source.slice(i + 2, i + 6))
+          ) {
+            value += String.fromCharCode(
+              parseInt(source.slice(i + 2, i + 6), 16)
+            );
+            i += 6;
+          } else if (escape !== undefined && escape in ESCAPES) {
+            value += ESCAPES[escape];
+            i += 2;
+          } else {
+            throw new ExpressionError("Invalid escape sequence", i + 1);
+          }
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: "string", value, start, end: i });
+    } else if (isIdentifierStart(char)) {
+      const name = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))![0];
+      i += name.length;
+      tokens.push({ type: "identifier", value: name, start, end: i });
+    } else {
+      const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, i));
+      if (punctuator === undefined) {
+        throw new ExpressionError(`Unexpected character "${char}"`, start + 1);
+      }
+      i += punctuator.length;
+      tokens.push({ type: "punctuator", value: punctuator, start, end: i });
+    }
+  }
+
+  tokens.push({
+    type: "end",
+    value: "",
+    start: source.length,
+    end: source.length,
+  });
+  return tokens;
+}
+
+// Reads an own property only, so `constructor`, `__proto__` and other inherited members read as `undefined`
+function readOwn(object: unknown, key: unknown): unknown {
+  if (object == null) return undefined;
+  if (typeof key !== "string" && typeof key !== "number") return undefined;
+  if (!Object.prototype.hasOwnProperty.call(object, key)) return undefined;
+
+  return (object as Record<string | number, unknown>)[key];
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function parse(source: string, options: ExpressionOptions): Evaluate {
+  const tokens = tokenize(source);
+  let position = 0;
+  let depth = 0;
+
+  const peek = (): Token => tokens[position];
+
+  const unexpected = (token: Token): ExpressionError => {
+    if (token.type === "end") {
+      return new ExpressionError(
+        "Unexpected end of expression",
+        token.start + 1
+      );
+    }
+    return new ExpressionError(
+      `Unexpected token ${source.slice(token.start, token.end)}`,
+      token.start + 1
+    );
+  };
+
+  const match = (punctuator: string): boolean => {
+    const token = peek();
+    if (token.type !== "punctuator" || token.value !== punctuator) return false;
+
+    position++;
+    return true;
+  };
+
+  const expect = (punctuator: string): void => {
+    if (!match(punctuator)) throw unexpected(peek());
+  };
+
+  // Each operator wraps its operand in another closure, and evaluation recurses as deep as the closures are
+  // nested, so prefix and postfix chains (`!!a`, `a.b.c`) count towards the limit as well as parentheses. Binary
+  // and logical chains (`a + b + c`) are evaluated in a loop over their operands, so they don't
+  const enter = (): void => {
+    if (++depth > MAX_DEPTH) {
+      throw new ExpressionError(
+        "Expression is nested too deeply",
+        peek().start + 1
+      );
+    }
+  };
+
+  const nested = (parseOperand: () => Evaluate): Evaluate => {
+    enter();
+    const operand = parseOperand();
+    depth--;
+    return operand;
+  };
+
+  const lookupFunction = (name: string, start: number): Invoke => {
+    const { functions = {} } = options;
+    const fn = Object.prototype.hasOwnProperty.call(functions, name)
+      ? functions[name]
+      : BUILTIN_FUNCTIONS.get(name);
+    if (typeof fn !== "function") {
+      throw new ExpressionError(`Unknown function "${name}"`, start + 1);
+    }
+    return fn as Invoke;
+  };
+
+  const parseArguments = (): Evaluate[] => {
+    const args: Evaluate[] = [];
+    if (match(")")) return args;
+
+    do {
+      args.push(parseExpression());
+    } while (match(","));
+    expect(")");
+    return args;
+  };
+
+  const parsePrimary = (): [Evaluate, Callee] => {
+    const token = peek();
+    position++;
+
+    switch (token.type) {
+      case "number":
+      case "string": {
+        const value = token.value;
+        return [() => value, { kind: "value" }];
+      }
+      case "identifier": {
+        const name = token.value as string;
+        switch (name) {
+          case "true":
+            return [() => true, { kind: "value" }];
+          case "false":
+            return [() => false, { kind: "value" }];
+          case "null":
+            return [() => null, { kind: "value" }];
+          case "undefined":
+            return [() => undefined, { kind: "value" }];
+          case "$":
+            return [(element) => element, { kind: "value" }];
+          case "$index":
+            return [(_, index) => index, { kind: "value" }];
+          default:
+            return [
+              (element) => readOwn(element, name),
+              { kind: "identifier", name, start: token.start },
+            ];
+        }
+      }
+      case "punctuator":
+        if (token.value === "(") {
+          const inner = parseExpression();
+          expect(")");
+          return [inner, { kind: "value" }];
+        }
+        if (token.value === "[") {
+          const items: Evaluate[] = [];
+          if (!match("]")) {
+            do {
+              items.push(parseExpression());
+            } while (match(","));
+            expect("]");
+          }
+          return [
+            (element, index) => items.map((item) => item(element, index)),
+            { kind: "value" },
+          ];
+        }
+    }
+
+    throw unexpected(token);
+  };
+
+  const parsePostfix = (): Evaluate => {
+    const outer = depth;
+    let [evaluate, callee] = parsePrimary();
+
+    for (;;) {
+      if (match(".")) {
+        enter();
+        const token = peek();
+        if (token.type !== "identifier") throw unexpected(token);
+        position++;
+
+        const object = evaluate;
+        const name = token.value as string;
+        evaluate = (element, index) => readOwn(object(element, index), name);
+        callee = { kind: "member", object, name, start: token.start };
+      } else if (match("[")) {
+        enter();
+        const object = evaluate;
+        const key = parseExpression();
+        expect("]");
+        evaluate = (element, index) =>
+          readOwn(object(element, index), key(element, index));
+        callee = { kind: "value" };
+      } else if (peek().type === "punctuator" && peek().value === "(") {
+        const start = peek().start;
+        position++;
+        enter();
+        evaluate = compileCall(callee, parseArguments(), start);
+        callee = { kind: "value" };
+      } else {
+        depth = outer;
+        return evaluate;
+      }
+    }
+  };
+
+  const compileCall = (
+    callee: Callee,
+    args: Evaluate[],
+    start: number
+  ): Evaluate => {
+    if (callee.kind === "identifier") {
+      const fn = lookupFunction(callee.name, callee.start);
+      return (element, index) => fn(...args.map((arg) => arg(element, index)));
+    }
+
+    if (callee.kind === "member") {
+      const { object, name } = callee;
+      const stringMethod = STRING_METHODS.get(name) as Invoke | undefined;
+      const arrayMethod = ARRAY_METHODS.get(name) as Invoke | undefined;
+      if (stringMethod === undefined && arrayMethod === undefined) {
+        throw new ExpressionError(`Unknown method "${name}"`, callee.start + 1);
+      }
+
+      return (element, index) => {
+        const receiver = object(element, index);
+        const method =
+          typeof receiver === "string"
+            ? stringMethod
+            : Array.isArray(receiver)
+              ? arrayMethod
+              : undefined;
+        if (method === undefined) {
+          throw new TypeError(
+            `${name}() is not available on ${typeName(receiver)}`
+          );
+        }
+        return method.apply(
+          receiver,
+          args.map((arg) => arg(element, index))
+        );
+      };
+    }
+
+    throw new ExpressionError(
+      "Only named functions and methods can be called",
+      start + 1
+    );
+  };
+
+  const parseUnary = (): Evaluate => {
+    if (match("!")) {
+      const operand = nested(parseUnary);
+      return (element, index) => !operand(element, index);
+    }
+    if (match("-")) {
+      const operand = nested(parseUnary);
+      return (element, index) => -(operand(element, index) as number);
+    }
+    if (match("+")) {
+      const operand = nested(parseUnary);
+      return (element, index) => +(operand(element, index) as number);
+    }
+    return parsePostfix();
+  };
+
+  const parseBinary = (level: number): Evaluate => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    const first = parseBinary(level + 1);
+    const applies: Array<(a: unknown, b: unknown) => unknown> = [];
+    const operands: Evaluate[] = [];
+    for (;;) {
+      const token = peek();
+      if (
+        token.type !== "punctuator" ||
+        !PRECEDENCE[level].includes(token.value as string)
+      ) {
+        break;
+      }
+      position++;
+      applies.push(BINARY_OPERATORS[token.value]);
+      operands.push(parseBinary(level + 1));
+    }
+    if (operands.length === 0) return first;
+
+    return (element, index) => {
+      let value = first(element, index);
+      for (let i = 0; i < operands.length; i++) {
+        value = applies[i](value, operands[i](element, index));
+      }
+      return value;
+    };
+  };
+
+  const parseLogical = (
+    operator: "&&" | "||" | "??",
+    parseOperand: () => Evaluate
+  ): Evaluate => {
+    const operands = [parseOperand()];
+    while (match(operator)) operands.push(parseOperand());
+    if (operands.length === 1) return operands[0];
+
+    // Stops at the first operand that decides the result, like the operator itself
+    const decides =
+      operator === "&&"
+        ? (value: unknown) => !value
+        : operator === "||"
+          ? (value: unknown) => !!value
+          : (value: unknown) => value !== null && value !== undefined;
+    return (element, index) => {
+      let value: unknown;
+      for (const operand of operands) {
+        value = operand(element, index);
+        if (decides(value)) return value;
+      }
+      return value;
+    };
+  };
+
+  const parseAnd = () => parseLogical("&&", () => parseBinary(0));
+  const parseOr = () => parseLogical("||", parseAnd);
+  const parseNullish = () => parseLogical("??", parseOr);
+
+  function parseExpression(): Evaluate {
+    enter();
+
+    const test = parseNullish();
+    let result = test;
+    if (match("?")) {
+      const consequent = parseExpression();
+      expect(":");
+      const alternate = parseExpression();
+      result = (element, index) =>
+        test(element, index)
+          ? consequent(element, index)
+          : alternate(element, index);
+    }
+
+    depth--;
+    return result;
+  }
+
+  const evaluate = parseExpression();
+  if (peek().type !== "end") throw unexpected(peek());
+  return evaluate;
+}
+
+/**
+ * Compiles an expression such as `age >= 18 && tags.includes("beta")` into a `filter` function for
+ * `mapFilter` and its variants. The result of the expression is converted to a boolean.
+ *
+ * The language has literals (numbers, strings, `true`, `false`, `null`, `undefined`, arrays), property paths
+ * resolved against the element (`address.city`, `tags[0]`; `$` is the element itself and `$index` its index),
+ * comparisons (`==` and `!=` are strict), arithmetic, `!`, `&&`, `||`, `??` and `? :`. Only whitelisted
+ * functions (`abs`, `ceil`, `floor`, `round`, `min`, `max`, `number`, `string` and `options.functions`) and
+ * a few string and array methods can be called. Paths only read own properties, and the source is never passed
+ * to `eval` or `Function`. Syntax errors throw an `ExpressionError` with the column of the offending token.
+ *
+ * @param {string} source The expression to compile
+ * @param {ExpressionOptions} options Optional extra `functions`
+ */
+export function compileFilter(
+  source: string,
+  options: ExpressionOptions = {}
+): (element: unknown, index?: number) => boolean {
+  if (typeof source !== "string") {
+    throw new TypeError("Expression must be a string");
+  }
+
+  const evaluate = parse(source, options);
+  return (element, index) => !!evaluate(element, index);
+}
+
+/**
+ * Compiles an expression such as `name + " (" + age + ")"` into a `template` function for `mapFilter` and its
+ * variants, using the same language as `compileFilter`. `U` is not checked; it only types the result.
+ *
+ * @param {string} source The expression to compile
+ * @param {ExpressionOptions} options Optional extra `functions`
+ */
+export function compileTemplate<U = unknown>(
+  source: string,
+  options: ExpressionOptions = {}
+): (element: unknown, index?: number) => U {
+  if (typeof source !== "string") {
+    throw new TypeError("Expression must be a string");
+  }
+
+  return parse(source, options) as (element: unknown, index?: number) => U;
+}
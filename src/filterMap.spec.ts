@@ -0,0 +1,65 @@
+import mapFilter, { filterMap, SKIP, STOP } from "./index";
+
+describe("filterMap", () => {
+  const parseOrSkip = (value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isNaN(parsed) ? SKIP : parsed;
+  };
+
+  it("returns empty Array when given an empty Array", () => {
+    expect(filterMap([], () => SKIP)).toEqual([]);
+  });
+
+  it("keeps mapped values and drops SKIP results", () => {
+    const result: number[] = filterMap(["1", "x", "3", "", "5"], parseOrSkip);
+    expect(result).toEqual([1, 3, 5]);
+  });
+
+  it("calls the callback exactly once per non-hole element", () => {
+    const fn = jest.fn((x: number | undefined) => (x! > 1 ? x! * 10 : SKIP));
+
+    const source = [1, , 2, , 3];
+    const result = filterMap(source, fn);
+
+    expect(result).toEqual([20, 30]);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(fn).toHaveBeenCalledWith(1, 0, source);
+    expect(fn).toHaveBeenCalledWith(2, 2, source);
+    expect(fn).toHaveBeenCalledWith(3, 4, source);
+  });
+
+  it("keeps falsy mapped values", () => {
+    const result = filterMap([0, 1, 2], (x) => (x === 1 ? SKIP : x && null));
+    expect(result).toEqual([0, null]);
+  });
+
+  it("stops iterating when the callback returns STOP", () => {
+    const fn = jest.fn((x: number) => (x > 2 ? STOP : x));
+
+    expect(filterMap([1, 2, 3, 4], fn)).toEqual([1, 2]);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("matches mapFilter for an equivalent filter/template pair", () => {
+    const array = ["a", "b", "c", "d"];
+    const result = filterMap(array, (element, index) =>
+      index! % 2 === 0 ? `${element}-${index}` : SKIP
+    );
+
+    expect(result).toEqual(
+      mapFilter(
+        array,
+        (_, index) => index! % 2 === 0,
+        (element, index) => `${element}-${index}`
+      )
+    );
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    [null, undefined, "string", 123, {}, true].forEach((input) => {
+      expect(() => filterMap(input as any, () => SKIP)).toThrow(
+        "First argument must be an array"
+      );
+    });
+  });
+});
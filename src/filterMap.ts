@@ -0,0 +1,39 @@
+import { SKIP, STOP } from "./sentinels.js";
+import { assertArray } from "./utils.js";
+
+/**
+ * Single-callback companion to `mapFilter`. The callback returns either the mapped value or `SKIP`,
+ * which avoids computing the same intermediate value once in `filter` and again in `template`.
+ *
+ * Input validation and hole skipping are the same as `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} fn A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array; returning `SKIP` leaves the element out and `STOP` ends the
+ * iteration.
+ */
+export function filterMap<T, U>(
+  array: ReadonlyArray<T>,
+  fn: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => U | typeof SKIP | typeof STOP
+): U[] {
+  assertArray(array);
+
+  const newArray: U[] = [];
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const result = fn(array[i], i, array);
+    if (result === SKIP) continue;
+    if (result === STOP) break;
+
+    newArray.push(result);
+  }
+
+  return newArray;
+}
@@ -0,0 +1,115 @@
+import { mapFilterGroupBy, mapFilterGroupByObject } from "./index";
+
+type User = { name: string; team: string; active: boolean };
+
+const users: User[] = [
+  { name: "Alice", team: "red", active: true },
+  { name: "Bob", team: "blue", active: false },
+  { name: "Carol", team: "blue", active: true },
+  { name: "Dave", team: "red", active: true },
+  { name: "Erin", team: "green", active: false },
+];
+const isActive = (user: User) => user.active;
+const byTeam = (user: User) => user.team;
+const displayName = (user: User) => user.name.toUpperCase();
+
+describe("mapFilterGroupBy", () => {
+  it("returns an empty Map when given an empty Array", () => {
+    expect(mapFilterGroupBy([], isActive, byTeam, displayName)).toEqual(
+      new Map()
+    );
+  });
+
+  it("filters, maps and groups in one pass", () => {
+    const groups = mapFilterGroupBy(users, isActive, byTeam, displayName);
+
+    expect(groups).toEqual(
+      new Map([
+        ["red", ["ALICE", "DAVE"]],
+        ["blue", ["CAROL"]],
+      ])
+    );
+  });
+
+  it("orders groups by first appearance", () => {
+    const groups = mapFilterGroupBy(users, () => true, byTeam, displayName);
+    expect([...groups.keys()]).toEqual(["red", "blue", "green"]);
+  });
+
+  it("supports non-string keys", () => {
+    const groups = mapFilterGroupBy(
+      [1, 2, 3, 4, 5, 6],
+      (n) => n > 1,
+      (n) => n % 2 === 0,
+      (n) => n * 10
+    );
+    expect(groups.get(true)).toEqual([20, 40, 60]);
+    expect(groups.get(false)).toEqual([30, 50]);
+  });
+
+  it("only calls keyFn and template for passing elements, with source indices", () => {
+    const keyFn = jest.fn(byTeam);
+    const template = jest.fn(displayName);
+
+    mapFilterGroupBy(users, isActive, keyFn, template);
+
+    expect(keyFn).toHaveBeenCalledTimes(3);
+    expect(template).toHaveBeenCalledTimes(3);
+    expect(keyFn).toHaveBeenCalledWith(users[2], 2, users);
+    expect(template).toHaveBeenCalledWith(users[3], 3, users);
+  });
+
+  it("skips holes", () => {
+    const sparseArray = [1, , 2, , 3];
+    const groups = mapFilterGroupBy(
+      sparseArray,
+      () => true,
+      (n) => (n! % 2 === 0 ? "even" : "odd"),
+      (n, index) => `${n}-${index}`
+    );
+    expect(groups).toEqual(
+      new Map([
+        ["odd", ["1-0", "3-4"]],
+        ["even", ["2-2"]],
+      ])
+    );
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() =>
+      mapFilterGroupBy(new Set() as any, isActive, byTeam, displayName)
+    ).toThrow("First argument must be an array");
+  });
+});
+
+describe("mapFilterGroupByObject", () => {
+  it("groups into a plain object keyed by string", () => {
+    const groups = mapFilterGroupByObject(users, isActive, byTeam, displayName);
+
+    expect({ ...groups }).toEqual({ red: ["ALICE", "DAVE"], blue: ["CAROL"] });
+    expect(groups.green).toBeUndefined();
+  });
+
+  it("returns an object with a null prototype", () => {
+    const groups = mapFilterGroupByObject(
+      ["constructor", "__proto__", "toString"],
+      () => true,
+      (key) => key,
+      (key, index) => index
+    );
+
+    expect(Object.getPrototypeOf(groups)).toBeNull();
+    expect(Object.keys(groups)).toEqual([
+      "constructor",
+      "__proto__",
+      "toString",
+    ]);
+    expect(groups["__proto__"]).toEqual([1]);
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() =>
+      mapFilterGroupByObject("abc" as any, isActive, byTeam, displayName)
+    ).toThrow("First argument must be an array");
+  });
+});
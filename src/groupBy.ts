@@ -0,0 +1,123 @@
+import { assertArray } from "./utils.js";
+
+/**
+ * When `filter` is a type guard, `keyFn` and `template` receive the narrowed element type `S`.
+ */
+export function mapFilterGroupBy<T, S extends T, K, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  keyFn: (element: S, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U
+): Map<K, U[]>;
+/**
+ * Filters, maps and groups an array into a `Map` in a single pass.
+ *
+ * For each element with a truthy predicate from the `filter`, the `template` result is appended to the group
+ * returned by `keyFn`. Groups appear in the order their first element was seen, and holes are skipped like
+ * `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be grouped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} keyFn A function that accepts up to three arguments
+ * and returns the group key. Called for each element that has a truthy predicate from the `filter`.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called for each element that has a truthy predicate from the `filter`.
+ */
+export function mapFilterGroupBy<T, K, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  keyFn: (element: T, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): Map<K, U[]>;
+export function mapFilterGroupBy<T, K, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  keyFn: (element: T, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): Map<K, U[]> {
+  assertArray(array);
+
+  const groups = new Map<K, U[]>();
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (!filter(element, i, array)) continue;
+
+    const key = keyFn(element, i, array);
+    const group = groups.get(key);
+    if (group) {
+      group.push(template(element, i, array));
+    } else {
+      groups.set(key, [template(element, i, array)]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * When `filter` is a type guard, `keyFn` and `template` receive the narrowed element type `S`.
+ */
+export function mapFilterGroupByObject<
+  T,
+  S extends T,
+  K extends PropertyKey,
+  U,
+>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  keyFn: (element: S, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U
+): Partial<Record<K, U[]>>;
+/**
+ * Plain-object variant of `mapFilterGroupBy` for string (or symbol) keys.
+ *
+ * The returned object has a `null` prototype (like `Object.groupBy`), so keys such as `"__proto__"` or
+ * `"constructor"` are stored as ordinary groups.
+ *
+ * @param {Array} array An array of elements to be grouped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => PropertyKey} keyFn A function that accepts up to three
+ * arguments and returns the group key. Called for each element that has a truthy predicate from the `filter`.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called for each element that has a truthy predicate from the `filter`.
+ */
+export function mapFilterGroupByObject<T, K extends PropertyKey, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  keyFn: (element: T, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): Partial<Record<K, U[]>>;
+export function mapFilterGroupByObject<T, K extends PropertyKey, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  keyFn: (element: T, index: number, array: ReadonlyArray<T>) => K,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): Partial<Record<K, U[]>> {
+  assertArray(array);
+
+  const groups: Partial<Record<K, U[]>> = Object.create(null);
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (!filter(element, i, array)) continue;
+
+    const key = keyFn(element, i, array);
+    const group = groups[key];
+    if (group) {
+      group.push(template(element, i, array));
+    } else {
+      groups[key] = [template(element, i, array)];
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,114 @@
+import mapFilter, { mapFilterInPlace } from "./index";
+
+describe("mapFilterInPlace", () => {
+  it("returns the same array reference", () => {
+    const array = [1, 2, 3, 4];
+    const result = mapFilterInPlace(
+      array,
+      (x) => x % 2 === 0,
+      (x) => x * 10
+    );
+
+    expect(result).toBe(array);
+    expect(array).toEqual([20, 40]);
+    expect(array.length).toBe(2);
+  });
+
+  it("compacts with the filter alone when no template is given", () => {
+    const array = [5, 1, 8, 3, 9];
+    const result: number[] = mapFilterInPlace(array, (x) => x > 4);
+
+    expect(result).toBe(array);
+    expect(array).toEqual([5, 8, 9]);
+  });
+
+  it("retypes the result when the template changes the element type", () => {
+    const array = [1, 2, 3];
+    const result: string[] = mapFilterInPlace(
+      array,
+      (x) => x !== 2,
+      (x, index) => `${x}-${index}`
+    );
+
+    expect(result).toEqual(["1-0", "3-2"]);
+  });
+
+  it("produces the same values as mapFilter", () => {
+    const source = Array.from({ length: 50 }, (_, i) => i);
+    const filter = (x: number, index?: number) => (x + index!) % 3 === 0;
+    const template = (x: number, index?: number) => x * index!;
+    const expected = mapFilter(source, filter, template);
+
+    expect(mapFilterInPlace(source.slice(), filter, template)).toEqual(
+      expected
+    );
+  });
+
+  it("empties the array when nothing passes", () => {
+    const array = [1, 2, 3];
+    mapFilterInPlace(array, () => false);
+    expect(array).toEqual([]);
+  });
+
+  describe("sparse array handling", () => {
+    it("removes holes and leaves a dense array", () => {
+      const array = [1, , 3, , 5];
+      const result = mapFilterInPlace(
+        array,
+        () => true,
+        (x, index) => `${x}-${index}`
+      );
+
+      expect(result).toEqual(["1-0", "3-2", "5-4"]);
+      expect(Object.keys(result)).toEqual(["0", "1", "2"]);
+    });
+
+    it("never calls the callbacks for holes", () => {
+      const filter = jest.fn().mockReturnValue(true);
+      const array = [, 2, , 4];
+      mapFilterInPlace(array, filter);
+
+      expect(filter).toHaveBeenCalledTimes(2);
+      expect(filter).toHaveBeenCalledWith(2, 1, array);
+      expect(filter).toHaveBeenCalledWith(4, 3, array);
+    });
+
+    it("empties an array with only holes", () => {
+      const array = [, , ,];
+      mapFilterInPlace(array, () => true);
+      expect(array.length).toBe(0);
+    });
+  });
+
+  it("passes original indices even after earlier slots were overwritten", () => {
+    const array = ["a", "b", "c", "d"];
+    const seen: Array<[string, number]> = [];
+
+    mapFilterInPlace(
+      array,
+      (_, index) => index! > 0,
+      (element, index) => {
+        seen.push([element, index!]);
+        return element.toUpperCase();
+      }
+    );
+
+    expect(seen).toEqual([
+      ["b", 1],
+      ["c", 2],
+      ["d", 3],
+    ]);
+    expect(array).toEqual(["B", "C", "D"]);
+  });
+
+  it("throws on frozen arrays", () => {
+    const frozen = Object.freeze([1, 2, 3]) as number[];
+    expect(() => mapFilterInPlace(frozen, (x) => x > 1)).toThrow(TypeError);
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() => mapFilterInPlace({} as any, () => true)).toThrow(
+      "First argument must be an array"
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { assertArray } from "./utils.js";
+
+/**
+ * Compacts the array in place, keeping only the elements that pass the filter (optionally replaced by the
+ * `template` result) and returning the same array reference.
+ */
+export function mapFilterInPlace<T>(
+  array: T[],
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  template?: (element: T, index: number, array: ReadonlyArray<T>) => T
+): T[];
+/**
+ * In-place version of `mapFilter` that writes the mapped values over the source array's passing slots,
+ * truncates its `length` and returns the same array reference. No second array is allocated, which halves
+ * peak memory for very large inputs.
+ *
+ * Holes are skipped and removed: the result is always dense. Callbacks receive the original index, but the
+ * slots before it may already have been overwritten, so callbacks should not read other elements through the
+ * array. When `U` differs from `T`, only use the returned (retyped) reference afterwards.
+ *
+ * @param {Array} array A mutable array of elements to be filterMapped in place
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ */
+export function mapFilterInPlace<T, U>(
+  array: T[],
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): U[];
+export function mapFilterInPlace<T, U>(
+  array: T[],
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  template?: (element: T, index: number, array: ReadonlyArray<T>) => U
+): U[] {
+  assertArray(array);
+
+  const target = array as unknown as U[];
+  const len = array.length;
+  let length = 0;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (filter(element, i, array)) {
+      target[length++] = template
+        ? template(element, i, array)
+        : (element as unknown as U);
+    }
+  }
+
+  array.length = length;
+  return target;
+}
@@ -1,4 +1,7 @@
-import mapFilter from "./index";
+import mapFilter, { MapFilterError, STOP } from "./index";
+import type { MapFilterCollected, MapFilterOptions } from "./index";
+import { expectType } from "./testUtils";
+import type { Equals } from "./testUtils";
 
 type TestObject = {
   name: string;
@@ -129,6 +132,128 @@ describe("mapFilter", () => {
       );
       expect(result).toEqual([3, 4, 5]);
     });
+
+    describe("holes option", () => {
+      const sparseArray = [1, , 3, , 5];
+
+      it("skips holes with 'skip', same as the default", () => {
+        const template = (x: number | undefined, index: number) =>
+          `${x}-${index}`;
+        expect(
+          mapFilter(sparseArray, () => true, template, { holes: "skip" })
+        ).toEqual(mapFilter(sparseArray, () => true, template));
+      });
+
+      it("passes undefined to both callbacks for holes with 'visit'", () => {
+        const filter = jest.fn().mockReturnValue(true);
+
+        const result = mapFilter(
+          sparseArray,
+          filter,
+          (x, index) => `${x}-${index}`,
+          { holes: "visit" }
+        );
+
+        expect(result).toEqual([
+          "1-0",
+          "undefined-1",
+          "3-2",
+          "undefined-3",
+          "5-4",
+        ]);
+        expect(filter).toHaveBeenCalledTimes(5);
+        expect(filter).toHaveBeenCalledWith(undefined, 1, sparseArray);
+      });
+
+      it("lets the filter treat holes as missing values with 'visit'", () => {
+        const readings = [10, , , 40];
+        let last = 0;
+        const filled = mapFilter(
+          readings,
+          () => true,
+          (x) => (last = x ?? last),
+          { holes: "visit" }
+        );
+        expect(filled).toEqual([10, 10, 10, 40]);
+      });
+
+      it("keeps holes in the output without calling back with 'preserve'", () => {
+        const filter = jest.fn((x: number | undefined) => x !== 3);
+
+        const result = mapFilter(sparseArray, filter, (x) => x! * 10, {
+          holes: "preserve",
+        });
+
+        expect(result).toEqual([10, , , 50]);
+        expect(result.length).toBe(4);
+        expect(1 in result).toBe(false);
+        expect(2 in result).toBe(false);
+        expect(filter).toHaveBeenCalledTimes(3);
+      });
+
+      it("keeps leading, trailing and consecutive holes with 'preserve'", () => {
+        const result = mapFilter(
+          [, , 2, , ,],
+          () => true,
+          (x) => x,
+          { holes: "preserve" }
+        );
+        expect(result.length).toBe(5);
+        expect(Object.keys(result)).toEqual(["2"]);
+      });
+
+      it("treats explicit undefined as a value, not a hole, in every mode", () => {
+        const array = [undefined, 1];
+        for (const holes of ["skip", "visit", "preserve"] as const) {
+          expect(
+            mapFilter(
+              array,
+              () => true,
+              (x) => String(x),
+              { holes }
+            )
+          ).toEqual(["undefined", "1"]);
+        }
+      });
+
+      it("combines with limit and onError", () => {
+        expect(
+          mapFilter(
+            sparseArray,
+            () => true,
+            (x) => x,
+            {
+              holes: "preserve",
+              limit: 2,
+            }
+          )
+        ).toEqual([1, , 3]);
+        expect(
+          mapFilter(
+            sparseArray,
+            () => true,
+            (x) => x,
+            {
+              holes: "visit",
+              onError: "collect",
+            }
+          ).results
+        ).toEqual([1, undefined, 3, undefined, 5]);
+      });
+
+      it("rejects unknown modes", () => {
+        expect(() =>
+          mapFilter(
+            sparseArray,
+            () => true,
+            (x) => x,
+            {
+              holes: "fill" as any,
+            }
+          )
+        ).toThrow("holes must be 'skip', 'visit' or 'preserve'");
+      });
+    });
   });
 
   describe("edge cases and special values", () => {
@@ -199,9 +324,9 @@ describe("mapFilter", () => {
       mapFilter(array, filterCallCount, (x) => x);
 
       expect(filterCallCount).toHaveBeenCalledTimes(3);
-      expect(filterCallCount).toHaveBeenCalledWith(1, 0);
-      expect(filterCallCount).toHaveBeenCalledWith(3, 2);
-      expect(filterCallCount).toHaveBeenCalledWith(5, 4);
+      expect(filterCallCount).toHaveBeenCalledWith(1, 0, array);
+      expect(filterCallCount).toHaveBeenCalledWith(3, 2, array);
+      expect(filterCallCount).toHaveBeenCalledWith(5, 4, array);
     });
 
     it("should call template function only for elements that pass filter", () => {
@@ -211,8 +336,8 @@ describe("mapFilter", () => {
       mapFilter(array, (x) => x % 2 === 0, templateCallCount);
 
       expect(templateCallCount).toHaveBeenCalledTimes(2);
-      expect(templateCallCount).toHaveBeenCalledWith(2, 1);
-      expect(templateCallCount).toHaveBeenCalledWith(4, 3);
+      expect(templateCallCount).toHaveBeenCalledWith(2, 1, array);
+      expect(templateCallCount).toHaveBeenCalledWith(4, 3, array);
     });
 
     it("should return a new array instance", () => {
@@ -233,12 +358,101 @@ describe("mapFilter", () => {
       const testArray = ["a", "b", "c", "d"];
       const result = mapFilter(
         testArray,
-        (_, index) => index! % 2 === 0,
+        (_, index) => index % 2 === 0,
         (element, index) => `${element}-${index}`
       );
       expect(result).toEqual(["a-0", "c-2"]);
     });
 
+    it("should pass the source array as the third argument to both functions", () => {
+      const testArray = [3, 1, 2];
+      const filter = jest.fn(
+        (x: number, _: number, array: readonly number[]) => x < array.length
+      );
+      const template = jest.fn(
+        (x: number, index: number, array: readonly number[]) =>
+          array[(index + 1) % array.length] * x
+      );
+
+      expect(mapFilter(testArray, filter, template)).toEqual([2, 6]);
+      expect(filter).toHaveBeenCalledWith(3, 0, testArray);
+      expect(template).toHaveBeenCalledWith(1, 1, testArray);
+      expect(
+        filter.mock.calls.every(([, , array]) => array === testArray)
+      ).toBe(true);
+    });
+
+    it("should type index as number and array as the source array", () => {
+      mapFilter(
+        ["a"],
+        (_, index, array) => {
+          expectType<Equals<typeof index, number>>();
+          expectType<Equals<typeof array, ReadonlyArray<string>>>();
+          return true;
+        },
+        (element, index, array) => array[index] === element
+      );
+    });
+
+    it("should accept callbacks written for native filter and map", () => {
+      const numbers = [5, 10, 15, 20];
+      const isAboveAverage = (x: number, _: number, array: readonly number[]) =>
+        x > array.reduce((sum, n) => sum + n, 0) / array.length;
+      const toShare = (x: number, _: number, array: readonly number[]) =>
+        x / array.length;
+
+      expect(mapFilter(numbers, isAboveAverage, toShare)).toEqual(
+        numbers.filter(isAboveAverage).map((x) => toShare(x, 0, numbers))
+      );
+    });
+
+    it("should call both functions with thisArg as this", () => {
+      const scale = { factor: 10, min: 2 };
+      const result = mapFilter(
+        [1, 2, 3],
+        function (this: typeof scale, x) {
+          return x >= this.min;
+        },
+        function (this: typeof scale, x) {
+          return x * this.factor;
+        },
+        { thisArg: scale }
+      );
+      expect(result).toEqual([20, 30]);
+    });
+
+    it("should combine thisArg with the other options", () => {
+      const context = { threshold: 1 };
+      function aboveThreshold(this: typeof context, x: number) {
+        return x > this.threshold;
+      }
+
+      expect(
+        mapFilter([1, 2, 3, 4], aboveThreshold, (x) => x, {
+          thisArg: context,
+          limit: 2,
+        })
+      ).toEqual([2, 3]);
+      expect(
+        mapFilter([1, 2, 3], aboveThreshold, (x) => x, {
+          thisArg: context,
+          onError: "collect",
+        }).results
+      ).toEqual([2, 3]);
+    });
+
+    it("should pass the original array for sparse input", () => {
+      const sparseArray = [1, , 3];
+      const seen: unknown[] = [];
+      mapFilter(
+        sparseArray,
+        (_, __, array) => seen.push(array) > 0,
+        (x) => x
+      );
+      expect(seen).toEqual([sparseArray, sparseArray]);
+      expect(seen[0]).toBe(sparseArray);
+    });
+
     it("should work when functions don't use index parameter", () => {
       const numbers = [1, 2, 3, 4, 5];
       const result = mapFilter(
@@ -249,4 +463,455 @@ describe("mapFilter", () => {
       expect(result).toEqual([8, 10]);
     });
   });
+
+  describe("type-guard filters", () => {
+    type User = { kind: "user"; name: string };
+    type Guest = { kind: "guest"; sessionId: string };
+    const people: Array<User | Guest> = [
+      { kind: "user", name: "Alice" },
+      { kind: "guest", sessionId: "abc" },
+      { kind: "user", name: "Bob" },
+    ];
+    const isUser = (person: User | Guest): person is User =>
+      person.kind === "user";
+
+    it("narrows the template's element type to the guarded type", () => {
+      const names = mapFilter(people, isUser, (user) => {
+        expectType<Equals<typeof user, User>>();
+        return user.name;
+      });
+
+      expectType<Equals<typeof names, string[]>>();
+      expect(names).toEqual(["Alice", "Bob"]);
+    });
+
+    it("narrows when the guard also takes the index", () => {
+      const isLeadingUser = (
+        person: User | Guest,
+        index?: number
+      ): person is User => person.kind === "user" && index === 0;
+
+      const result = mapFilter(people, isLeadingUser, (user, index) => {
+        expectType<Equals<typeof user, User>>();
+        expectType<Equals<typeof index, number>>();
+        return `${user.name}-${index}`;
+      });
+      expect(result).toEqual(["Alice-0"]);
+    });
+
+    it("narrows nullable elements with an inline guard", () => {
+      const values = [1, null, 3, undefined];
+
+      const result = mapFilter(
+        values,
+        (value): value is number => value != null,
+        (value) => {
+          expectType<Equals<typeof value, number>>();
+          return value * 2;
+        }
+      );
+      expect(result).toEqual([2, 6]);
+    });
+
+    it("keeps the source element type for boolean filters", () => {
+      const result = mapFilter(
+        people,
+        (person) => person.kind === "user",
+        (person) => {
+          expectType<Equals<typeof person, User | Guest>>();
+          return person.kind;
+        }
+      );
+
+      expectType<Equals<typeof result, Array<"user" | "guest">>>();
+      expect(result).toEqual(["user", "user"]);
+    });
+  });
+
+  describe("early termination", () => {
+    const numbers = [1, 2, 3, 4, 5, 6, 7, 8];
+    const isEven = (x: number) => x % 2 === 0;
+    const double = (x: number) => x * 2;
+
+    it("limits the number of results and stops iterating", () => {
+      const filter = jest.fn(isEven);
+
+      const result = mapFilter(numbers, filter, double, { limit: 2 });
+
+      expect(result).toEqual([4, 8]);
+      expect(filter).toHaveBeenCalledTimes(4);
+    });
+
+    it("skips `offset` passing elements without running the template on them", () => {
+      const template = jest.fn(double);
+
+      const result = mapFilter(numbers, isEven, template, { offset: 2 });
+
+      expect(result).toEqual([12, 16]);
+      expect(template).toHaveBeenCalledTimes(2);
+      expect(template).toHaveBeenCalledWith(6, 5, numbers);
+    });
+
+    it("combines offset and limit into a page window", () => {
+      expect(
+        mapFilter(numbers, isEven, double, { offset: 1, limit: 2 })
+      ).toEqual([8, 12]);
+      expect(
+        mapFilter(numbers, isEven, double, { offset: 10, limit: 2 })
+      ).toEqual([]);
+    });
+
+    it("returns an empty array without calling back when limit is 0", () => {
+      const filter = jest.fn(isEven);
+
+      expect(mapFilter(numbers, filter, double, { limit: 0 })).toEqual([]);
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it("counts offset and limit over passing elements, not holes", () => {
+      const sparseArray = [, 2, , 4, , 6];
+      const result = mapFilter(
+        sparseArray,
+        () => true,
+        (x, index) => `${x}-${index}`,
+        { offset: 1, limit: 1 }
+      );
+      expect(result).toEqual(["4-3"]);
+    });
+
+    it("stops immediately when the filter returns STOP", () => {
+      const filter = jest.fn((x: number) => (x > 4 ? STOP : isEven(x)));
+
+      const result = mapFilter(numbers, filter, double);
+
+      expect(result).toEqual([4, 8]);
+      expect(filter).toHaveBeenCalledTimes(5);
+    });
+
+    it("rejects invalid offset and limit values", () => {
+      [{ offset: -1 }, { offset: 1.5 }, { limit: -1 }, { limit: NaN }].forEach(
+        (options) => {
+          expect(() => mapFilter(numbers, isEven, double, options)).toThrow(
+            RangeError
+          );
+        }
+      );
+    });
+  });
+
+  describe("output strategies for long arrays", () => {
+    // Long enough that the pass rate of the leading elements decides between pushing and preallocating
+    const numbers = Array.from({ length: 1000 }, (_, i) => i);
+    const double = (x: number) => x * 2;
+    const reference = <T, U>(
+      array: T[],
+      filter: (element: T, index: number) => boolean,
+      template: (element: T, index: number) => U
+    ): U[] =>
+      array.reduce<U[]>((acc, element, index) => {
+        if (filter(element, index)) acc.push(template(element, index));
+        return acc;
+      }, []);
+
+    it.each([
+      ["every element passes", () => true],
+      ["most elements pass", (x: number) => x % 10 !== 1],
+      ["few elements pass", (x: number) => x % 10 === 0],
+      ["only late elements pass", (x: number) => x >= 900],
+      ["only early elements pass", (x: number) => x < 100],
+    ])("matches a reducer when %s", (_, filter) => {
+      expect(mapFilter(numbers, filter, double)).toEqual(
+        reference(numbers, filter, double)
+      );
+    });
+
+    it("returns a dense, correctly sized array when most elements pass", () => {
+      const result = mapFilter(numbers, (x) => x !== 500, double);
+
+      expect(result.length).toBe(999);
+      expect(Object.keys(result).length).toBe(999);
+      expect(result[998]).toBe(1998);
+    });
+
+    it("skips holes after the leading elements", () => {
+      const sparseArray: number[] = numbers.slice();
+      delete sparseArray[100];
+      delete sparseArray[999];
+
+      const result = mapFilter(
+        sparseArray,
+        () => true,
+        (x, index) => index
+      );
+
+      expect(result.length).toBe(998);
+      expect(result).not.toContain(100);
+      expect(result).not.toContain(999);
+    });
+
+    it("stops on STOP after the leading elements", () => {
+      const filter = jest.fn((x: number) => (x === 300 ? STOP : true));
+
+      const result = mapFilter(numbers, filter, double);
+
+      expect(result.length).toBe(300);
+      expect(filter).toHaveBeenCalledTimes(301);
+    });
+
+    it("stops on STOP after the leading elements when few pass", () => {
+      const result = mapFilter(
+        numbers,
+        (x) => (x === 300 ? STOP : x % 100 === 0),
+        double
+      );
+      expect(result).toEqual([0, 200, 400]);
+    });
+
+    it("stops on STOP within the leading elements", () => {
+      expect(
+        mapFilter(numbers, (x) => (x === 3 ? STOP : true), double)
+      ).toEqual([0, 2, 4]);
+    });
+  });
+
+  describe("callback error policy", () => {
+    const rows = ["1", "2", "x", "4", "", "6"];
+    const parse = (row: string) => {
+      const value = Number(row);
+      if (row === "" || Number.isNaN(value))
+        throw new Error(`bad row "${row}"`);
+      return value;
+    };
+
+    it("lets errors propagate unchanged without onError", () => {
+      expect(() => mapFilter(rows, () => true, parse)).toThrow(
+        new Error('bad row "x"')
+      );
+      expect(() =>
+        mapFilter(rows, () => true, parse, { limit: 5 })
+      ).not.toThrow(MapFilterError);
+    });
+
+    it("wraps the cause with the index, element and callback on 'throw'", () => {
+      let caught: unknown;
+      try {
+        mapFilter(rows, () => true, parse, { onError: "throw" });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(MapFilterError);
+      const error = caught as MapFilterError<string>;
+      expect(error.name).toBe("MapFilterError");
+      expect(error.index).toBe(2);
+      expect(error.element).toBe("x");
+      expect(error.callback).toBe("template");
+      expect(error.cause).toEqual(new Error('bad row "x"'));
+      expect(error.message).toBe('template threw at index 2: bad row "x"');
+    });
+
+    it("reports filter failures as such", () => {
+      expect(() =>
+        mapFilter(
+          [1, 2],
+          (x) => {
+            if (x === 2) throw "not an Error";
+            return true;
+          },
+          (x) => x,
+          { onError: "throw" }
+        )
+      ).toThrow("filter threw at index 1: not an Error");
+    });
+
+    it("leaves failing elements out on 'skip'", () => {
+      const result = mapFilter(rows, () => true, parse, { onError: "skip" });
+      expect(result).toEqual([1, 2, 4, 6]);
+    });
+
+    it("returns results and errors on 'collect'", () => {
+      const { results, errors } = mapFilter(rows, () => true, parse, {
+        onError: "collect",
+      });
+
+      expect(results).toEqual([1, 2, 4, 6]);
+      expect(errors.map((error) => [error.index, error.element])).toEqual([
+        [2, "x"],
+        [4, ""],
+      ]);
+      expectType<Equals<typeof results, number[]>>();
+      expectType<Equals<typeof errors, MapFilterError<string>[]>>();
+    });
+
+    it("accepts options typed as MapFilterOptions, returning either shape", () => {
+      const page = (options: MapFilterOptions<number>) =>
+        mapFilter(rows, () => true, parse, options);
+
+      const limited = page({ limit: 2 });
+      expect(limited).toEqual([1, 2]);
+      expectType<
+        Equals<typeof limited, number[] | MapFilterCollected<string, number>>
+      >();
+      expect(page({ onError: "collect", limit: 3 })).toMatchObject({
+        results: [1, 2, 4],
+      });
+    });
+
+    it("does not count failed elements towards offset and limit", () => {
+      const result = mapFilter(rows, () => true, parse, {
+        onError: "skip",
+        offset: 1,
+        limit: 2,
+      });
+      expect(result).toEqual([2, 4]);
+    });
+
+    it("still honours STOP and skips holes", () => {
+      const template = jest.fn((x: number | undefined) => x);
+      const { results, errors } = mapFilter(
+        [1, , 3, 4],
+        (x) => (x === 4 ? STOP : true),
+        template,
+        { onError: "collect" }
+      );
+
+      expect(results).toEqual([1, 3]);
+      expect(errors).toEqual([]);
+      expect(template).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects unknown policies", () => {
+      expect(() =>
+        mapFilter(
+          [1],
+          () => true,
+          (x) => x,
+          { onError: "ignore" as any }
+        )
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe("distinctBy option", () => {
+    type Row = { id: number; email: string };
+    const rows: Row[] = [
+      { id: 1, email: "a@x.com" },
+      { id: 2, email: "b@x.com" },
+      { id: 3, email: "A@x.com" },
+      { id: 4, email: "c@x.com" },
+      { id: 5, email: "b@x.com" },
+    ];
+    const lower = (row: Row) => ({ ...row, email: row.email.toLowerCase() });
+    const ids = (results: Row[]) => results.map((row) => row.id);
+
+    it("keeps the first result per key of the mapped value", () => {
+      const result = mapFilter(rows, () => true, lower, {
+        distinctBy: (row) => {
+          expectType<Equals<typeof row, Row>>();
+          return row.email;
+        },
+      });
+      expect(ids(result)).toEqual([1, 2, 4]);
+      expectType<Equals<typeof result, Row[]>>();
+    });
+
+    it("types results as unknown when the options are not tied to a call", () => {
+      const options: MapFilterOptions = {
+        distinctBy: (value) => {
+          expectType<Equals<typeof value, unknown>>();
+          return value;
+        },
+      };
+      expect(mapFilter([1, 1, 2], () => true, (n) => n, options)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it("keeps the last result per key at its own position", () => {
+      const result = mapFilter(rows, () => true, lower, {
+        distinctBy: { key: (row) => row.email, keep: "last" },
+      });
+      expect(ids(result)).toEqual([3, 4, 5]);
+    });
+
+    it("reports how many duplicates were dropped", () => {
+      const onDuplicates = jest.fn();
+      mapFilter(rows, () => true, lower, {
+        distinctBy: { key: (row) => row.email, onDuplicates },
+      });
+      mapFilter(rows, () => true, lower, {
+        distinctBy: { key: (row) => row.id, keep: "last", onDuplicates },
+      });
+
+      expect(onDuplicates.mock.calls).toEqual([[2], [0]]);
+    });
+
+    it("passes the key function the source index and compares keys like a Set", () => {
+      const key = jest.fn((value: number | undefined, _index: number) => value);
+      const result = mapFilter(
+        [NaN, 1, NaN, , 0, -0],
+        (x) => x !== 1,
+        (x) => x,
+        { distinctBy: key }
+      );
+
+      expect(result).toEqual([NaN, 0]);
+      expect(key.mock.calls.map(([, index]) => index)).toEqual([0, 2, 4, 5]);
+    });
+
+    it("counts distinct results for offset and limit", () => {
+      const template = jest.fn(lower);
+      const result = mapFilter(rows, () => true, template, {
+        distinctBy: (row) => row.email,
+        offset: 1,
+        limit: 1,
+      });
+
+      expect(ids(result)).toEqual([2]);
+      expect(template).toHaveBeenCalledTimes(2);
+    });
+
+    it("composes with holes and onError", () => {
+      const preserved = mapFilter(
+        [1, , 1, 2, , 2],
+        () => true,
+        (x) => x,
+        { distinctBy: { key: (x) => x, keep: "last" }, holes: "preserve" }
+      );
+      expect(preserved).toEqual([, 1, , 2]);
+      expect(1 in preserved).toBe(true);
+      expect(0 in preserved).toBe(false);
+
+      const { results, errors } = mapFilter(
+        ["a", "b", "", "a"],
+        () => true,
+        (s) => {
+          if (s === "") throw new Error("empty");
+          return s.toUpperCase();
+        },
+        { distinctBy: (s) => s, onError: "collect" }
+      );
+      expect(results).toEqual(["A", "B"]);
+      expect(errors.map((error) => error.index)).toEqual([2]);
+    });
+
+    it("rejects invalid settings", () => {
+      const run = (options: object) => () =>
+        mapFilter(rows, () => true, lower, options);
+
+      expect(run({ distinctBy: "email" })).toThrow(
+        new TypeError("distinctBy must be a function or { key, keep }")
+      );
+      expect(run({ distinctBy: { key: () => 1, keep: "any" } })).toThrow(
+        new RangeError("distinctBy.keep must be 'first' or 'last'")
+      );
+      expect(
+        run({ distinctBy: { key: () => 1, keep: "last" }, limit: 2 })
+      ).toThrow(
+        new RangeError(
+          "distinctBy with keep 'last' can't be combined with offset or limit"
+        )
+      );
+    });
+  });
 });
@@ -1,37 +1,61 @@
-/**
- * Returns the elements of an array in the shape specified in the template callback function
- * for those elements that meet the condition specified in the filter callback function.
- *
- * This performs filtering and mapping in a single pass and skips array holes (like native map/filter)
- *
- * @param {Array} array An array of elements to be filterMapped
- * @param {(element: any, index?: number) => any} filter A function that accepts up to two arguments. The mapFilter method calls
- * the filter function one time for each element in the array.
- * @param {(element: any, index?: number) => any} template A function that accepts up to two arguments. The mapFilter method calls the
- * template function one time for each element in the array that has a truthy predicate from the `filter`.
- */
-function mapFilter<T, U>(
-  array: ReadonlyArray<T>,
-  filter: (element: T, index?: number) => boolean,
-  template: (element: T, index?: number) => U
-): U[] {
-  if (!Array.isArray(array)) {
-    throw new TypeError("First argument must be an array");
-  }
+import mapFilter from "./mapFilter.js";
 
-  const newArray: U[] = [];
-  const len = array.length;
-  for (let i = 0; i < len; i++) {
-    // Skip holes in the array (e.g., [, , 1, , 2])
-    if (!(i in array)) continue;
-
-    const element: T = array[i];
-    if (filter(element, i)) {
-      newArray.push(template(element, i));
-    }
-  }
-
-  return newArray;
-}
+export type {
+  MapFilterCollected,
+  MapFilterDistinctBy,
+  MapFilterOptions,
+} from "./mapFilter.js";
+export { ExpressionError, MapFilterError, SpecError } from "./errors.js";
+export { mapFilterAsync } from "./async.js";
+export type { MapFilterAsyncOptions } from "./async.js";
+export { mapFilterIter } from "./iter.js";
+export { mapFilterAsyncIter } from "./asyncIter.js";
+export { filterMap } from "./filterMap.js";
+export { mapFilterFirst, mapFilterPage } from "./paging.js";
+export type { MapFilterPage } from "./paging.js";
+export { mapPartition } from "./partition.js";
+export { mapFilterGroupBy, mapFilterGroupByObject } from "./groupBy.js";
+export {
+  mapFilterInto,
+  toArray,
+  toJoinedString,
+  toMap,
+  toSet,
+  toSum,
+} from "./collectors.js";
+export type { Collector } from "./collectors.js";
+export { mapFilterInPlace } from "./inPlace.js";
+export { mapFilterTyped } from "./typed.js";
+export type {
+  TypedArray,
+  TypedArrayConstructor,
+  TypedArrayElement,
+} from "./typed.js";
+export { mapFilterMap, mapFilterObject } from "./object.js";
+export type { MapFilterObjectOptions } from "./object.js";
+export { mapFilterIndexed } from "./indexed.js";
+export type { MapFilterIndexed, MapFilterIndexedOptions } from "./indexed.js";
+export { mapFilterTopK } from "./topK.js";
+export { mapFilterChunked } from "./chunked.js";
+export type { MapFilterChunkedOptions } from "./chunked.js";
+export { compilePredicate } from "./predicate.js";
+export type {
+  Predicate,
+  PredicateCondition,
+  PredicateLiteral,
+} from "./predicate.js";
+export { compileProjection } from "./projection.js";
+export type {
+  JsonValue,
+  Projected,
+  ProjectionField,
+  ProjectionFunctions,
+  ProjectionSpec,
+} from "./projection.js";
+export { compileFilter, compileTemplate } from "./expression.js";
+export type { ExpressionOptions } from "./expression.js";
+export { pipeline } from "./pipeline.js";
+export type { Pipeline } from "./pipeline.js";
+export { SKIP, STOP } from "./sentinels.js";
 
 export default mapFilter;
@@ -0,0 +1,158 @@
+import mapFilter, { mapFilterIndexed, STOP } from "./index";
+
+describe("mapFilterIndexed", () => {
+  const rows = [
+    { name: "item0", value: 50 },
+    { name: "item1", value: 150 },
+    { name: "item2", value: 10 },
+    { name: "item3", value: 111 },
+  ];
+  type Row = (typeof rows)[number];
+  const isSmall = (row: Row) => row.value < 100;
+  const toName = (row: Row) => row.name;
+
+  it("returns empty results and indices for an empty array", () => {
+    const { results, indices } = mapFilterIndexed<Row, string>(
+      [],
+      isSmall,
+      toName
+    );
+    expect(results).toEqual([]);
+    expect(indices).toEqual(new Uint32Array(0));
+  });
+
+  describe("columns output (default)", () => {
+    it("returns the template output unchanged with a parallel Uint32Array of source indices", () => {
+      const { results, indices } = mapFilterIndexed(rows, isSmall, toName);
+
+      expect(results).toEqual(mapFilter(rows, isSmall, toName));
+      expect(results).toEqual(["item0", "item2"]);
+      expect(indices).toBeInstanceOf(Uint32Array);
+      expect(Array.from(indices)).toEqual([0, 2]);
+    });
+
+    it("sizes the indices exactly when every element passes", () => {
+      const { indices } = mapFilterIndexed(rows, () => true, toName);
+      expect(Array.from(indices)).toEqual([0, 1, 2, 3]);
+      expect(indices.buffer.byteLength).toBe(4 * Uint32Array.BYTES_PER_ELEMENT);
+    });
+
+    it("releases the unused tail of the indices buffer", () => {
+      const { indices } = mapFilterIndexed(rows, isSmall, toName);
+      expect(indices.buffer.byteLength).toBe(2 * Uint32Array.BYTES_PER_ELEMENT);
+    });
+
+    it("does not allocate per source index for sparse arrays", () => {
+      const sparse: number[] = [1, 2];
+      sparse[2 ** 32 - 2] = 3;
+
+      const { results, indices } = mapFilterIndexed(
+        sparse,
+        (x) => (x === 2 ? STOP : true),
+        (x) => x
+      );
+      expect(results).toEqual([1]);
+      expect(Array.from(indices)).toEqual([0]);
+    });
+
+    it("lets callers patch the source through the indices", () => {
+      const source = [3, -1, 4, -5];
+      const { results, indices } = mapFilterIndexed(
+        source,
+        (x) => x < 0,
+        (x) => -x
+      );
+      indices.forEach((sourceIndex, k) => {
+        source[sourceIndex] = results[k];
+      });
+      expect(source).toEqual([3, 1, 4, 5]);
+    });
+  });
+
+  describe("entries output", () => {
+    it("pairs each result with its source index", () => {
+      const entries = mapFilterIndexed(rows, isSmall, toName, {
+        output: "entries",
+      });
+      expect(entries).toEqual([
+        [0, "item0"],
+        [2, "item2"],
+      ]);
+    });
+  });
+
+  describe("matches mapFilter semantics", () => {
+    it("skips holes and reports the index of the original slot", () => {
+      const sparseArray = [1, , 3, , 5];
+      const { results, indices } = mapFilterIndexed(
+        sparseArray,
+        () => true,
+        (x) => x
+      );
+      expect(results).toEqual([1, 3, 5]);
+      expect(Array.from(indices)).toEqual([0, 2, 4]);
+      expect(
+        mapFilterIndexed(
+          sparseArray,
+          () => true,
+          (x) => x,
+          {
+            output: "entries",
+          }
+        )
+      ).toEqual([
+        [0, 1],
+        [2, 3],
+        [4, 5],
+      ]);
+    });
+
+    it("stops on STOP", () => {
+      const { results, indices } = mapFilterIndexed(
+        [1, 2, 3, 4],
+        (x) => (x === 3 ? STOP : true),
+        (x) => x * 10
+      );
+      expect(results).toEqual([10, 20]);
+      expect(Array.from(indices)).toEqual([0, 1]);
+    });
+
+    it("passes (element, index, array) to both callbacks", () => {
+      const filter = jest.fn().mockReturnValue(true);
+      const template = jest.fn().mockReturnValue("mapped");
+      const array = ["a", "b"];
+
+      mapFilterIndexed(array, filter, template);
+
+      expect(filter).toHaveBeenCalledWith("b", 1, array);
+      expect(template).toHaveBeenCalledWith("b", 1, array);
+    });
+
+    it("narrows the template's element type for type-guard filters", () => {
+      const { results } = mapFilterIndexed(
+        [1, "two", 3],
+        (value): value is number => typeof value === "number",
+        (value: number) => value.toFixed(1)
+      );
+      expect(results).toEqual(["1.0", "3.0"]);
+    });
+  });
+
+  it("rejects unknown output shapes", () => {
+    expect(() =>
+      mapFilterIndexed([1], isSmall as any, toName as any, {
+        output: "rows" as any,
+      })
+    ).toThrow(RangeError);
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() =>
+      mapFilterIndexed(
+        "string" as any,
+        () => true,
+        (x) => x
+      )
+    ).toThrow("First argument must be an array");
+  });
+});
@@ -0,0 +1,118 @@
+import { STOP } from "./sentinels.js";
+import { assertArray } from "./utils.js";
+
+export type MapFilterIndexed<U> = {
+  /** Mapped values for the passing elements, exactly as `mapFilter` returns them */
+  results: U[];
+  /** `indices[k]` is the source index of `results[k]` */
+  indices: Uint32Array;
+};
+
+export type MapFilterIndexedOptions = {
+  /**
+   * `'columns'` (the default) returns `{ results, indices }`; `'entries'` returns `[index, result]` pairs, like
+   * `Array.prototype.entries`.
+   */
+  output?: "columns" | "entries";
+};
+
+/**
+ * When `filter` is a type guard (`(element: T) => element is S`), the `template` receives the
+ * narrowed element type `S`.
+ */
+export function mapFilterIndexed<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options?: { output?: "columns" }
+): MapFilterIndexed<U>;
+export function mapFilterIndexed<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options: { output: "entries" }
+): Array<[index: number, result: U]>;
+/**
+ * Version of `mapFilter` that also reports which source index produced each result, without changing what
+ * the template returns.
+ *
+ * By default the indices come back as a `Uint32Array` parallel to the results; with `output: 'entries'` each
+ * result is paired with its index instead. Holes are skipped and `STOP` ends iteration, as in `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three
+ * arguments. Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {MapFilterIndexedOptions} options Optional `output` shape
+ */
+export function mapFilterIndexed<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options?: { output?: "columns" }
+): MapFilterIndexed<U>;
+export function mapFilterIndexed<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: { output: "entries" }
+): Array<[index: number, result: U]>;
+export function mapFilterIndexed<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: MapFilterIndexedOptions = {}
+): MapFilterIndexed<U> | Array<[index: number, result: U]> {
+  assertArray(array);
+
+  const { output = "columns" } = options;
+  if (output !== "columns" && output !== "entries") {
+    throw new RangeError("output must be 'columns' or 'entries'");
+  }
+
+  const len = array.length;
+  if (output === "entries") {
+    const entries: Array<[index: number, result: U]> = [];
+    for (let i = 0; i < len; i++) {
+      // Skip holes in the array (e.g., [, , 1, , 2])
+      if (!(i in array)) continue;
+
+      const element: T = array[i];
+      const predicate = filter(element, i, array);
+      if (!predicate) continue;
+      if (predicate === STOP) break;
+
+      entries.push([i, template(element, i, array)]);
+    }
+    return entries;
+  }
+
+  const results: U[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < len; i++) {
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    indices.push(i);
+    results.push(template(element, i, array));
+  }
+
+  return { results, indices: new Uint32Array(indices) };
+}
@@ -0,0 +1,145 @@
+import { mapFilterIter } from "./index";
+
+describe("mapFilterIter", () => {
+  const isEven = (x: number) => x % 2 === 0;
+  const double = (x: number) => x * 2;
+
+  it("returns an empty iterator for an empty iterable", () => {
+    expect([...mapFilterIter(new Set<number>(), isEven, double)]).toEqual([]);
+  });
+
+  describe("accepts any iterable", () => {
+    it("works with a Set", () => {
+      const result = mapFilterIter(new Set([1, 2, 3, 4]), isEven, double);
+      expect([...result]).toEqual([4, 8]);
+    });
+
+    it("works with Map entries and values", () => {
+      const map = new Map([
+        ["a", 1],
+        ["b", 2],
+        ["c", 4],
+      ]);
+
+      const keys = mapFilterIter(
+        map,
+        ([, value]) => isEven(value),
+        ([key]) => key
+      );
+      expect([...keys]).toEqual(["b", "c"]);
+      expect([...mapFilterIter(map.values(), isEven, double)]).toEqual([4, 8]);
+    });
+
+    it("works with strings", () => {
+      const result = mapFilterIter(
+        "a1b2",
+        (char) => /\d/.test(char),
+        (char) => Number(char)
+      );
+      expect([...result]).toEqual([1, 2]);
+    });
+
+    it("works with arrays and skips holes like mapFilter", () => {
+      const sparseArray = [1, , 3, , 5];
+      const result = mapFilterIter(
+        sparseArray,
+        () => true,
+        (x, index) => `${x}-${index}`
+      );
+      expect([...result]).toEqual(["1-0", "3-2", "5-4"]);
+    });
+  });
+
+  describe("laziness", () => {
+    it("does not call the callbacks until values are pulled", () => {
+      const filter = jest.fn().mockReturnValue(true);
+      const template = jest.fn((x: number) => x);
+
+      const iterator = mapFilterIter([1, 2, 3], filter, template);
+      expect(filter).not.toHaveBeenCalled();
+
+      expect(iterator.next()).toEqual({ value: 1, done: false });
+      expect(filter).toHaveBeenCalledTimes(1);
+      expect(template).toHaveBeenCalledTimes(1);
+    });
+
+    it("advances the source only as far as the next passing element", () => {
+      const filter = jest.fn(isEven);
+      const iterator = mapFilterIter(new Set([1, 3, 4, 5, 6]), filter, double);
+
+      expect(iterator.next().value).toBe(8);
+      expect(filter).toHaveBeenCalledTimes(3);
+    });
+
+    it("handles unbounded generators when the consumer stops early", () => {
+      function* naturals() {
+        let n = 0;
+        while (true) yield n++;
+      }
+
+      const taken: number[] = [];
+      for (const value of mapFilterIter(naturals(), isEven, double)) {
+        if (taken.length === 3) break;
+        taken.push(value);
+      }
+      expect(taken).toEqual([0, 4, 8]);
+    });
+
+    it("closes the source iterator when the consumer breaks", () => {
+      let closed = false;
+      function* source() {
+        try {
+          yield 1;
+          yield 2;
+        } finally {
+          closed = true;
+        }
+      }
+
+      for (const _ of mapFilterIter(source(), () => true, double)) {
+        break;
+      }
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe("index parameter usage", () => {
+    it("passes the position in the source, not the output", () => {
+      const result = mapFilterIter(
+        new Set(["a", "b", "c", "d"]),
+        (_, index) => index! % 2 === 1,
+        (element, index) => `${element}-${index}`
+      );
+      expect([...result]).toEqual(["b-1", "d-3"]);
+    });
+  });
+
+  it("narrows the template's element type for type-guard filters", () => {
+    const values = new Set([1, "two", 3]);
+    const result = mapFilterIter(
+      values,
+      (value): value is number => typeof value === "number",
+      (value: number) => value.toFixed(1)
+    );
+    expect([...result]).toEqual(["1.0", "3.0"]);
+  });
+
+  it("returns an iterator that is itself iterable", () => {
+    const iterator = mapFilterIter([1, 2], () => true, double);
+    expect(iterator[Symbol.iterator]()).toBe(iterator);
+  });
+
+  it("should throw TypeError eagerly when first argument is not iterable", () => {
+    const invalidInputs = [null, undefined, 123, {}, true];
+
+    invalidInputs.forEach((input) => {
+      expect(() => {
+        mapFilterIter(
+          input as any,
+          () => true,
+          (x) => x
+        );
+      }).toThrow("First argument must be iterable");
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { assertIterable } from "./utils.js";
+
+function* generateFromArray<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number) => boolean,
+  template: (element: T, index: number) => U
+): Generator<U, void, undefined> {
+  for (let i = 0; i < array.length; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (filter(element, i)) {
+      yield template(element, i);
+    }
+  }
+}
+
+function* generate<T, U>(
+  iterable: Iterable<T>,
+  filter: (element: T, index: number) => boolean,
+  template: (element: T, index: number) => U
+): Generator<U, void, undefined> {
+  if (Array.isArray(iterable)) {
+    yield* generateFromArray(iterable, filter, template);
+    return;
+  }
+
+  let i = 0;
+  for (const element of iterable) {
+    if (filter(element, i)) {
+      yield template(element, i);
+    }
+    i++;
+  }
+}
+
+/**
+ * When `filter` is a type guard, the `template` receives the narrowed element type `S`.
+ */
+export function mapFilterIter<T, S extends T, U>(
+  iterable: Iterable<T>,
+  filter: (element: T, index: number) => element is S,
+  template: (element: S, index: number) => U
+): IterableIterator<U>;
+/**
+ * Lazy version of `mapFilter` that accepts any iterable (Set, Map, generators, strings...).
+ *
+ * Nothing runs until the returned iterator is pulled; each `next()` call advances the source only as far
+ * as the next passing element. Breaking out early closes the source iterator. The index passed to the
+ * callbacks is the element's position in the source, and arrays skip holes like `mapFilter` does.
+ *
+ * @param {Iterable} iterable An iterable of elements to be filterMapped
+ * @param {(element: any, index: number) => any} filter A function that accepts up to two arguments. Called once
+ * for each element pulled from the source.
+ * @param {(element: any, index: number) => any} template A function that accepts up to two arguments. Called once
+ * for each element that has a truthy predicate from the `filter`.
+ */
+export function mapFilterIter<T, U>(
+  iterable: Iterable<T>,
+  filter: (element: T, index: number) => boolean,
+  template: (element: T, index: number) => U
+): IterableIterator<U>;
+export function mapFilterIter<T, U>(
+  iterable: Iterable<T>,
+  filter: (element: T, index: number) => boolean,
+  template: (element: T, index: number) => U
+): IterableIterator<U> {
+  assertIterable(iterable);
+
+  return generate(iterable, filter, template);
+}
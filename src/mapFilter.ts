@@ -0,0 +1,464 @@
+import { MapFilterError } from "./errors.js";
+import { STOP } from "./sentinels.js";
+import { assertArray, resolveRange } from "./utils.js";
+
+// Number of leading elements used to estimate the pass rate before choosing a strategy
+const PROBE_SIZE = 64;
+
+/**
+ * Drops results whose key was already seen. A function is shorthand for `{ key }`. Keys are compared like `Set`
+ * members (SameValueZero).
+ */
+export type MapFilterDistinctBy<U> =
+  | ((value: U, index: number) => unknown)
+  | {
+      /** Called with each mapped result and the source index of its element */
+      key: (value: U, index: number) => unknown;
+      /**
+       * `'first'` (the default) keeps the earliest result for a key; `'last'` keeps the latest, at its own
+       * position.
+       */
+      keep?: "first" | "last";
+      /** Called once, after the pass, with the number of results that were dropped as duplicates */
+      onDuplicates?: (count: number) => void;
+    };
+
+export type MapFilterOptions<U = unknown> = {
+  /** Number of passing elements to skip before collecting results. Defaults to `0`. */
+  offset?: number;
+  /** Maximum number of results; iteration stops once it is reached. Defaults to `Infinity`. */
+  limit?: number;
+  /**
+   * What to do when `filter` or `template` throws: `'throw'` rethrows it as a `MapFilterError`, `'skip'` leaves
+   * the element out, and `'collect'` leaves it out and returns `{ results, errors }`. Without it, errors
+   * propagate unchanged.
+   */
+  onError?: "throw" | "skip" | "collect";
+  /**
+   * How holes in sparse arrays are treated: `'skip'` (the default) ignores them like native `filter` and `map`,
+   * `'visit'` calls the callbacks with `undefined`, and `'preserve'` skips the callbacks but keeps a hole at
+   * that position in the output.
+   */
+  holes?: "skip" | "visit" | "preserve";
+  /** Value used as `this` when calling `filter` and `template`, like the `thisArg` of `Array.prototype.filter`. */
+  thisArg?: unknown;
+  /** Keeps one result per key, deduplicating the mapped results in the same pass */
+  distinctBy?: MapFilterDistinctBy<U>;
+};
+
+export type MapFilterCollected<T, U> = {
+  /** Mapped values for the elements whose callbacks succeeded */
+  results: U[];
+  /** One error per element whose `filter` or `template` threw, in source order */
+  errors: MapFilterError<T>[];
+};
+
+type ResultOptions<U> = MapFilterOptions<U> & { onError?: "throw" | "skip" };
+type CollectOptions<U> = MapFilterOptions<U> & { onError: "collect" };
+
+// Tracks the keys of a `distinctBy` pass. `add` is called with each mapped result before it is stored at
+// `results.length`, and returns `false` when the result must be dropped.
+type Distinct<U> = {
+  add(value: U, index: number, results: U[]): boolean;
+  finish(results: U[]): U[];
+};
+
+/**
+ * When `filter` is a type guard (`(element: T) => element is S`), the `template` receives the
+ * narrowed element type `S`.
+ */
+function mapFilter<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options?: ResultOptions<U>
+): U[];
+/**
+ * Returns the elements of an array in the shape specified in the template callback function
+ * for those elements that meet the condition specified in the filter callback function.
+ *
+ * This performs filtering and mapping in a single pass and skips array holes (like native map/filter) unless
+ * the `holes` option says otherwise.
+ * Both callbacks receive `(element, index, array)` and are called with `thisArg` as `this`, as the native
+ * callbacks are.
+ *
+ * `offset` and `limit` apply to the passing elements: the template only runs for elements inside the
+ * window, and iteration ends as soon as `limit` results are collected. Returning `STOP` from the filter
+ * ends iteration immediately. With `onError`, a throwing callback is reported as a `MapFilterError` that
+ * carries the index, the element and which callback failed. `distinctBy` keeps one result per key; with
+ * `keep: 'first'` the window set by `offset` and `limit` counts distinct results.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments. The
+ * mapFilter method calls the filter function one time for each element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three arguments. The
+ * mapFilter method calls the template function one time for each element in the array that has a truthy predicate from
+ * the `filter`.
+ * @param {MapFilterOptions} options Optional `offset` and `limit` over the passing elements, `onError`, `holes`,
+ * `thisArg` and `distinctBy`
+ */
+function mapFilter<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options?: ResultOptions<U>
+): U[];
+function mapFilter<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options: CollectOptions<U>
+): MapFilterCollected<T, U>;
+function mapFilter<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: CollectOptions<U>
+): MapFilterCollected<T, U>;
+// Options typed as the whole `MapFilterOptions` may or may not collect errors, so the result is either shape
+function mapFilter<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options?: MapFilterOptions<U>
+): U[] | MapFilterCollected<T, U>;
+function mapFilter<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options?: MapFilterOptions<U>
+): U[] | MapFilterCollected<T, U>;
+function mapFilter<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options?: MapFilterOptions<U>
+): U[] | MapFilterCollected<T, U> {
+  assertArray(array);
+  if (options !== undefined) {
+    const { offset, limit, onError, holes, thisArg, distinctBy } = options;
+    if (thisArg !== undefined) {
+      filter = filter.bind(thisArg);
+      template = template.bind(thisArg);
+    }
+    if (onError !== undefined) {
+      return mapFilterGuarded(array, filter, template, options);
+    }
+    if (
+      offset !== undefined ||
+      limit !== undefined ||
+      holes !== undefined ||
+      distinctBy !== undefined
+    ) {
+      return mapFilterRange(array, filter, template, options);
+    }
+  }
+
+  const len = array.length;
+  const probeEnd = len < PROBE_SIZE ? len : PROBE_SIZE;
+  const newArray: U[] = [];
+  let i = 0;
+  for (; i < probeEnd; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2]). Holes read as `undefined`, so the
+    // slower `in` check only runs for `undefined` values instead of for every index
+    const element: T = array[i];
+    if (element === undefined && !(i in array)) continue;
+
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) return newArray;
+
+    newArray.push(template(element, i, array));
+  }
+
+  // When at least half of the probe passed, growing the output one `push` at a time costs more than
+  // allocating room for every remaining element up front and trimming the unused tail afterwards
+  if (i < len && newArray.length * 2 >= probeEnd) {
+    return mapFilterPreallocated(array, filter, template, newArray, i);
+  }
+
+  for (; i < len; i++) {
+    const element: T = array[i];
+    if (element === undefined && !(i in array)) continue;
+
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    newArray.push(template(element, i, array));
+  }
+
+  return newArray;
+}
+
+function mapFilterPreallocated<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  head: U[],
+  start: number
+): U[] {
+  const len = array.length;
+  let count = head.length;
+  const newArray: U[] = new Array(count + len - start);
+  for (let k = 0; k < count; k++) {
+    newArray[k] = head[k];
+  }
+
+  for (let i = start; i < len; i++) {
+    const element: T = array[i];
+    if (element === undefined && !(i in array)) continue;
+
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    newArray[count++] = template(element, i, array);
+  }
+
+  newArray.length = count;
+  return newArray;
+}
+
+function resolveHoles(
+  holes: MapFilterOptions<never>["holes"] = "skip"
+): NonNullable<MapFilterOptions<never>["holes"]> {
+  if (holes !== "skip" && holes !== "visit" && holes !== "preserve") {
+    throw new RangeError("holes must be 'skip', 'visit' or 'preserve'");
+  }
+  return holes;
+}
+
+function createDistinct<U>(
+  distinctBy: MapFilterOptions<U>["distinctBy"],
+  range: { offset: number; limit: number }
+): Distinct<U> | undefined {
+  if (distinctBy === undefined) return undefined;
+
+  const {
+    key,
+    keep = "first",
+    onDuplicates,
+  }: Exclude<MapFilterDistinctBy<U>, Function> = typeof distinctBy ===
+  "function"
+    ? { key: distinctBy }
+    : distinctBy;
+  if (typeof key !== "function") {
+    throw new TypeError("distinctBy must be a function or { key, keep }");
+  }
+  if (keep !== "first" && keep !== "last") {
+    throw new RangeError("distinctBy.keep must be 'first' or 'last'");
+  }
+
+  let duplicates = 0;
+  const report = (results: U[]): U[] => {
+    if (onDuplicates !== undefined) onDuplicates(duplicates);
+    return results;
+  };
+
+  if (keep === "first") {
+    const seen = new Set<unknown>();
+    return {
+      add: (value, index) => {
+        const k = key(value, index);
+        if (seen.has(k)) {
+          duplicates++;
+          return false;
+        }
+        seen.add(k);
+        return true;
+      },
+      finish: report,
+    };
+  }
+
+  // A later duplicate replaces an earlier result that may already have been counted, so the window can't be
+  // applied during the pass
+  if (range.offset !== 0 || range.limit !== Infinity) {
+    throw new RangeError(
+      "distinctBy with keep 'last' can't be combined with offset or limit"
+    );
+  }
+
+  // Key -> position of the result currently kept for it. Replaced results are only marked during the pass and
+  // removed in one compaction at the end
+  const slots = new Map<unknown, number>();
+  const dropped = new Set<number>();
+  return {
+    add: (value, index, results) => {
+      const k = key(value, index);
+      const slot = slots.get(k);
+      if (slot !== undefined) {
+        dropped.add(slot);
+        duplicates++;
+      }
+      slots.set(k, results.length);
+      return true;
+    },
+    finish: (results) => {
+      if (dropped.size === 0) return report(results);
+
+      const kept: U[] = [];
+      for (let k = 0; k < results.length; k++) {
+        if (dropped.has(k)) continue;
+        // Keep holes written by `holes: 'preserve'`
+        if (k in results) kept.push(results[k]);
+        else kept.length++;
+      }
+      return report(kept);
+    },
+  };
+}
+
+function mapFilterRange<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: MapFilterOptions<U>
+): U[] {
+  const range = resolveRange(options);
+  let { offset, limit } = range;
+  const holes = resolveHoles(options.holes);
+  const distinct = createDistinct(options.distinctBy, range);
+
+  const newArray: U[] = [];
+  if (limit === 0) return distinct ? distinct.finish(newArray) : newArray;
+
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    const element: T = array[i];
+    if (element === undefined && holes !== "visit" && !(i in array)) {
+      if (holes === "preserve" && offset === 0) newArray.length++;
+      continue;
+    }
+
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    if (distinct === undefined) {
+      if (offset > 0) {
+        offset--;
+        continue;
+      }
+      newArray.push(template(element, i, array));
+    } else {
+      // The key comes from the mapped result, so the template also runs for results skipped by `offset`
+      const value = template(element, i, array);
+      if (!distinct.add(value, i, newArray)) continue;
+      if (offset > 0) {
+        offset--;
+        continue;
+      }
+      newArray.push(value);
+    }
+    if (--limit === 0) break;
+  }
+
+  return distinct ? distinct.finish(newArray) : newArray;
+}
+
+// Same as `mapFilterRange`, but every callback runs inside a try/catch so failures can be attributed to an
+// element. Kept separate so the common path pays nothing for it
+function mapFilterGuarded<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: MapFilterOptions<U>
+): U[] | MapFilterCollected<T, U> {
+  const range = resolveRange(options);
+  let { offset, limit } = range;
+  const holes = resolveHoles(options.holes);
+  const { onError } = options;
+  if (onError !== "throw" && onError !== "skip" && onError !== "collect") {
+    throw new RangeError("onError must be 'throw', 'skip' or 'collect'");
+  }
+  const distinct = createDistinct(options.distinctBy, range);
+
+  const results: U[] = [];
+  const errors: MapFilterError<T>[] = [];
+  const fail = (
+    cause: unknown,
+    index: number,
+    element: T,
+    callback: "filter" | "template"
+  ): void => {
+    const error = new MapFilterError(cause, index, element, callback);
+    if (onError === "throw") throw error;
+    if (onError === "collect") errors.push(error);
+  };
+
+  const len = limit === 0 ? 0 : array.length;
+  for (let i = 0; i < len; i++) {
+    const element: T = array[i];
+    if (element === undefined && holes !== "visit" && !(i in array)) {
+      if (holes === "preserve" && offset === 0) results.length++;
+      continue;
+    }
+
+    let predicate: boolean | typeof STOP;
+    try {
+      predicate = filter(element, i, array);
+    } catch (error) {
+      fail(error, i, element, "filter");
+      continue;
+    }
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    if (distinct === undefined && offset > 0) {
+      offset--;
+      continue;
+    }
+
+    let value: U;
+    try {
+      value = template(element, i, array);
+    } catch (error) {
+      fail(error, i, element, "template");
+      continue;
+    }
+    if (distinct !== undefined) {
+      if (!distinct.add(value, i, results)) continue;
+      if (offset > 0) {
+        offset--;
+        continue;
+      }
+    }
+    results.push(value);
+    if (--limit === 0) break;
+  }
+
+  const kept = distinct ? distinct.finish(results) : results;
+  return onError === "collect" ? { results: kept, errors } : kept;
+}
+
+export default mapFilter;
@@ -0,0 +1,242 @@
+import { mapFilterMap, mapFilterObject } from "./index";
+
+type Config = { enabled: boolean; retries: number };
+
+const configs: Record<string, Config> = {
+  api: { enabled: true, retries: 3 },
+  cache: { enabled: false, retries: 0 },
+  db: { enabled: true, retries: 5 },
+};
+const isEnabled = (config: Config) => config.enabled;
+
+describe("mapFilterObject", () => {
+  it("returns an empty object for an empty object", () => {
+    expect(
+      mapFilterObject(
+        {},
+        () => true,
+        (x) => x
+      )
+    ).toEqual({});
+  });
+
+  it("filters and maps values, receiving (value, key)", () => {
+    const result = mapFilterObject(
+      configs,
+      isEnabled,
+      (config, key) => `${key}:${config.retries}`
+    );
+    expect(result).toEqual({ api: "api:3", db: "db:5" });
+  });
+
+  it("remaps keys when the template returns [key, value] pairs", () => {
+    const result = mapFilterObject(
+      configs,
+      (_, key) => key !== "cache",
+      (config, key) => [key.toUpperCase(), config.retries] as const,
+      { remapKeys: true }
+    );
+    expect(result).toEqual({ API: 3, DB: 5 });
+  });
+
+  it("lets later entries win when remapped keys collide", () => {
+    const result = mapFilterObject(
+      { a: 1, b: 2, c: 3 },
+      () => true,
+      (value) => [value % 2 === 0 ? "even" : "odd", value] as const,
+      { remapKeys: true }
+    );
+    expect(result).toEqual({ odd: 3, even: 2 });
+  });
+
+  describe("key ordering", () => {
+    it("follows Object.keys order: integer keys ascending, then insertion order", () => {
+      const source = { b: 1, 2: 2, a: 3, 1: 4 };
+      const keys: string[] = [];
+
+      const result = mapFilterObject(
+        source,
+        (_, key) => {
+          keys.push(key);
+          return true;
+        },
+        (value) => value
+      );
+
+      expect(keys).toEqual(["1", "2", "b", "a"]);
+      expect(Object.keys(result)).toEqual(["1", "2", "b", "a"]);
+    });
+  });
+
+  describe("symbol keys", () => {
+    const tag = Symbol("tag");
+    const hidden = Symbol("hidden");
+    const source: Record<string | symbol, number> = { a: 1, [tag]: 2 };
+    Object.defineProperty(source, hidden, { value: 3, enumerable: false });
+
+    it("skips symbol keys by default", () => {
+      const result = mapFilterObject(
+        source,
+        () => true,
+        (value) => value * 10
+      );
+      expect(Object.getOwnPropertySymbols(result)).toEqual([]);
+      expect(result).toEqual({ a: 10 });
+    });
+
+    it("visits enumerable symbol keys after string keys with `symbols: true`", () => {
+      const keys: Array<string | symbol> = [];
+      const result = mapFilterObject(
+        source,
+        (_, key) => {
+          keys.push(key);
+          return true;
+        },
+        (value) => value * 10,
+        { symbols: true }
+      );
+
+      expect(keys).toEqual(["a", tag]);
+      expect(result[tag]).toBe(20);
+      expect(result[hidden]).toBeUndefined();
+    });
+  });
+
+  describe("prototype handling", () => {
+    it("ignores inherited and non-enumerable properties", () => {
+      const parent = { inherited: 1 };
+      const child = Object.create(parent);
+      child.own = 2;
+      Object.defineProperty(child, "hidden", { value: 3, enumerable: false });
+
+      const filter = jest.fn().mockReturnValue(true);
+      const result = mapFilterObject(child, filter, (value) => value);
+
+      expect(result).toEqual({ own: 2 });
+      expect(filter).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns a plain object", () => {
+      const result = mapFilterObject(
+        Object.create(null),
+        () => true,
+        (x) => x
+      );
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    });
+
+    it("stores a __proto__ key as an own property without changing the prototype", () => {
+      const source = JSON.parse('{"__proto__": {"polluted": true}, "a": 1}');
+
+      const result = mapFilterObject(
+        source,
+        () => true,
+        (value) => value
+      );
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(["__proto__", "a"]);
+      expect((result as any).polluted).toBeUndefined();
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it("does not change the prototype when a key is remapped to __proto__", () => {
+      const result = mapFilterObject(
+        { a: 1 },
+        () => true,
+        (value) => ["__proto__", { polluted: value }] as const,
+        { remapKeys: true }
+      );
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(["__proto__"]);
+    });
+  });
+
+  it("does not modify the source object", () => {
+    const source = { a: 1, b: 2 };
+    mapFilterObject(
+      source,
+      () => true,
+      (value) => value * 2
+    );
+    expect(source).toEqual({ a: 1, b: 2 });
+  });
+
+  it("should throw TypeError when first argument is not an object", () => {
+    [null, undefined, "string", 123, true].forEach((input) => {
+      expect(() =>
+        mapFilterObject(
+          input as any,
+          () => true,
+          (x) => x
+        )
+      ).toThrow("First argument must be an object");
+    });
+  });
+});
+
+describe("mapFilterMap", () => {
+  type Entity = { name: string; active: boolean };
+  const entities = new Map<number, Entity>([
+    [3, { name: "c", active: true }],
+    [1, { name: "a", active: false }],
+    [2, { name: "b", active: true }],
+  ]);
+
+  it("returns a new Map in insertion order, receiving (value, key)", () => {
+    const result = mapFilterMap(
+      entities,
+      (entity) => entity.active,
+      (entity, id) => `${id}:${entity.name}`
+    );
+
+    expect(result).toEqual(
+      new Map([
+        [3, "3:c"],
+        [2, "2:b"],
+      ])
+    );
+    expect([...result.keys()]).toEqual([3, 2]);
+    expect(result).not.toBe(entities);
+  });
+
+  it("remaps keys when the template returns [key, value] pairs", () => {
+    const result = mapFilterMap(
+      entities,
+      () => true,
+      (entity, id) => [entity.name, id] as const,
+      { remapKeys: true }
+    );
+
+    expect(result).toEqual(
+      new Map([
+        ["c", 3],
+        ["a", 1],
+        ["b", 2],
+      ])
+    );
+  });
+
+  it("accepts any key type", () => {
+    const objectKey = {};
+    const result = mapFilterMap(
+      new Map<object, number>([[objectKey, 1]]),
+      () => true,
+      (value) => value + 1
+    );
+    expect(result.get(objectKey)).toBe(2);
+  });
+
+  it("should throw TypeError when first argument is not a Map", () => {
+    [null, {}, [], new Set()].forEach((input) => {
+      expect(() =>
+        mapFilterMap(
+          input as any,
+          () => true,
+          (x) => x
+        )
+      ).toThrow("First argument must be a Map");
+    });
+  });
+});
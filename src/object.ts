@@ -0,0 +1,147 @@
+import { setOwn } from "./utils.js";
+
+export type MapFilterObjectOptions = {
+  /** When `true`, the template returns a `[key, value]` pair instead of just the value. */
+  remapKeys?: boolean;
+  /** Also visit own enumerable symbol keys, after the string keys. Defaults to `false`. */
+  symbols?: boolean;
+};
+
+// Numeric keys arrive as strings, the same as from `Object.keys`
+type ObjectKey<T> = Exclude<keyof T, number> | `${Extract<keyof T, number>}`;
+type ObjectValue<T> = T[keyof T];
+
+function ownKeys(object: object, symbols: boolean): PropertyKey[] {
+  const keys: PropertyKey[] = Object.keys(object);
+  if (symbols) {
+    for (const symbol of Object.getOwnPropertySymbols(object)) {
+      if (Object.prototype.propertyIsEnumerable.call(object, symbol)) {
+        keys.push(symbol);
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Remaps keys: the template returns a `[key, value]` pair for each passing entry.
+ */
+export function mapFilterObject<T extends object, K extends PropertyKey, U>(
+  object: T,
+  filter: (value: ObjectValue<T>, key: ObjectKey<T>) => boolean,
+  template: (value: ObjectValue<T>, key: ObjectKey<T>) => readonly [K, U],
+  options: MapFilterObjectOptions & { remapKeys: true }
+): Partial<Record<K, U>>;
+/**
+ * Object version of `mapFilter`: returns a new plain object with the entries that pass the filter, with their
+ * values replaced by the template result.
+ *
+ * Only own enumerable properties are visited (inherited ones are ignored), in `Object.keys` order: integer-like
+ * keys ascending, then string keys in insertion order, then (with `symbols: true`) symbol keys in insertion
+ * order. The result has the normal `Object.prototype`; a `"__proto__"` key is stored as an own property rather
+ * than changing the prototype. With `remapKeys`, later entries overwrite earlier ones that map to the same key.
+ *
+ * @param {object} object The object whose entries are filterMapped
+ * @param {(value: any, key: string) => boolean} filter A function that accepts up to two arguments. Called once
+ * for each visited entry.
+ * @param {(value: any, key: string) => any} template A function that accepts up to two arguments. Called once for
+ * each entry that has a truthy predicate from the `filter`.
+ * @param {MapFilterObjectOptions} options Optional `remapKeys` and `symbols`
+ */
+export function mapFilterObject<T extends object, U>(
+  object: T,
+  filter: (value: ObjectValue<T>, key: ObjectKey<T>) => boolean,
+  template: (value: ObjectValue<T>, key: ObjectKey<T>) => U,
+  options?: MapFilterObjectOptions & { remapKeys?: false }
+): Partial<Record<ObjectKey<T>, U>>;
+export function mapFilterObject<T extends object, U>(
+  object: T,
+  filter: (value: ObjectValue<T>, key: ObjectKey<T>) => boolean,
+  template: (value: ObjectValue<T>, key: ObjectKey<T>) => U,
+  options: MapFilterObjectOptions = {}
+): Record<PropertyKey, unknown> {
+  if (object === null || typeof object !== "object") {
+    throw new TypeError("First argument must be an object");
+  }
+
+  const { remapKeys = false, symbols = false } = options;
+  const source = object as Record<PropertyKey, ObjectValue<T>>;
+  const result: Record<PropertyKey, unknown> = {};
+  for (const key of ownKeys(object, symbols)) {
+    const value = source[key];
+    const entryKey = key as ObjectKey<T>;
+    if (!filter(value, entryKey)) continue;
+
+    const mapped = template(value, entryKey);
+    if (remapKeys) {
+      const [newKey, newValue] = mapped as unknown as readonly [
+        PropertyKey,
+        unknown,
+      ];
+      setOwn(result, newKey, newValue);
+    } else {
+      setOwn(result, key, mapped);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remaps keys: the template returns a `[key, value]` pair for each passing entry.
+ */
+export function mapFilterMap<K, V, K2, U>(
+  map: ReadonlyMap<K, V>,
+  filter: (value: V, key: K) => boolean,
+  template: (value: V, key: K) => readonly [K2, U],
+  options: { remapKeys: true }
+): Map<K2, U>;
+/**
+ * `Map` version of `mapFilter`: returns a new `Map` with the entries that pass the filter, with their values
+ * replaced by the template result.
+ *
+ * Entries are visited and inserted in the source's insertion order. With `remapKeys`, later entries overwrite
+ * earlier ones that map to the same key.
+ *
+ * @param {Map} map The Map whose entries are filterMapped
+ * @param {(value: any, key: any) => boolean} filter A function that accepts up to two arguments. Called once for
+ * each entry.
+ * @param {(value: any, key: any) => any} template A function that accepts up to two arguments. Called once for
+ * each entry that has a truthy predicate from the `filter`.
+ * @param {{ remapKeys?: boolean }} options Optional `remapKeys`
+ */
+export function mapFilterMap<K, V, U>(
+  map: ReadonlyMap<K, V>,
+  filter: (value: V, key: K) => boolean,
+  template: (value: V, key: K) => U,
+  options?: { remapKeys?: false }
+): Map<K, U>;
+export function mapFilterMap<K, V, U>(
+  map: ReadonlyMap<K, V>,
+  filter: (value: V, key: K) => boolean,
+  template: (value: V, key: K) => U,
+  options: { remapKeys?: boolean } = {}
+): Map<unknown, unknown> {
+  if (!(map instanceof Map)) {
+    throw new TypeError("First argument must be a Map");
+  }
+
+  const { remapKeys = false } = options;
+  const result = new Map<unknown, unknown>();
+  for (const [key, value] of map) {
+    if (!filter(value, key)) continue;
+
+    const mapped = template(value, key);
+    if (remapKeys) {
+      const [newKey, newValue] = mapped as unknown as readonly [
+        unknown,
+        unknown,
+      ];
+      result.set(newKey, newValue);
+    } else {
+      result.set(key, mapped);
+    }
+  }
+
+  return result;
+}
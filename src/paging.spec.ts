@@ -0,0 +1,101 @@
+import { mapFilterFirst, mapFilterPage, STOP } from "./index";
+
+type Item = { id: number; active: boolean };
+
+const items: Item[] = Array.from({ length: 10 }, (_, i) => ({
+  id: i,
+  active: i % 3 !== 0,
+}));
+const isActive = (item: Item) => item.active;
+const toId = (item: Item) => item.id;
+
+describe("mapFilterFirst", () => {
+  it("returns the mapped value of the first passing element", () => {
+    expect(mapFilterFirst(items, isActive, toId)).toBe(1);
+  });
+
+  it("stops at the first match and runs the template once", () => {
+    const filter = jest.fn((item: Item) => item.id > 4);
+    const template = jest.fn(toId);
+
+    expect(mapFilterFirst(items, filter, template)).toBe(5);
+    expect(filter).toHaveBeenCalledTimes(6);
+    expect(template).toHaveBeenCalledTimes(1);
+    expect(template).toHaveBeenCalledWith(items[5], 5, items);
+  });
+
+  it("returns undefined when nothing passes", () => {
+    expect(mapFilterFirst(items, () => false, toId)).toBeUndefined();
+    expect(mapFilterFirst([], () => true, toId)).toBeUndefined();
+  });
+
+  it("returns undefined when the filter returns STOP first", () => {
+    expect(
+      mapFilterFirst(items, (item) => (item.id === 0 ? STOP : true), toId)
+    ).toBeUndefined();
+  });
+
+  it("skips holes", () => {
+    const sparseArray = [, , 3];
+    expect(
+      mapFilterFirst(
+        sparseArray,
+        () => true,
+        (x, index) => `${x}-${index}`
+      )
+    ).toBe("3-2");
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() => mapFilterFirst({} as any, isActive, toId)).toThrow(
+      "First argument must be an array"
+    );
+  });
+});
+
+describe("mapFilterPage", () => {
+  it("returns the page of results and the total match count", () => {
+    const page = mapFilterPage(items, isActive, toId, { offset: 2, limit: 3 });
+
+    expect(page).toEqual({ results: [4, 5, 7], total: 6 });
+  });
+
+  it("only runs the template for elements on the page", () => {
+    const filter = jest.fn(isActive);
+    const template = jest.fn(toId);
+
+    mapFilterPage(items, filter, template, { offset: 1, limit: 2 });
+
+    expect(filter).toHaveBeenCalledTimes(items.length);
+    expect(template).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the total for pages past the end", () => {
+    expect(
+      mapFilterPage(items, isActive, toId, { offset: 50, limit: 10 })
+    ).toEqual({ results: [], total: 6 });
+  });
+
+  it("defaults to the whole result set", () => {
+    expect(mapFilterPage(items, isActive, toId, {})).toEqual({
+      results: [1, 2, 4, 5, 7, 8],
+      total: 6,
+    });
+  });
+
+  it("counts only up to a STOP", () => {
+    const page = mapFilterPage(
+      items,
+      (item) => (item.id >= 5 ? STOP : item.active),
+      toId,
+      { limit: 1 }
+    );
+    expect(page).toEqual({ results: [1], total: 3 });
+  });
+
+  it("rejects invalid offset and limit values", () => {
+    expect(() => mapFilterPage(items, isActive, toId, { limit: -2 })).toThrow(
+      "limit must be a non-negative integer or Infinity"
+    );
+  });
+});
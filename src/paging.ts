@@ -0,0 +1,127 @@
+import type { MapFilterOptions } from "./mapFilter.js";
+import { STOP } from "./sentinels.js";
+import { assertArray, resolveRange } from "./utils.js";
+
+type PageOptions = Pick<MapFilterOptions<never>, "offset" | "limit">;
+
+export type MapFilterPage<U> = {
+  /** Mapped values for the passing elements inside the `offset`/`limit` window */
+  results: U[];
+  /** Number of elements that passed the filter, including those outside the window */
+  total: number;
+};
+
+/**
+ * Returns the mapped value of the first element that passes the filter, or `undefined` when none does.
+ * Iteration stops at the first match, so the template runs at most once.
+ *
+ * @param {Array} array An array of elements to search
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called for each non-hole element until one passes.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called for the first passing element only.
+ */
+export function mapFilterFirst<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U
+): U | undefined;
+export function mapFilterFirst<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): U | undefined;
+export function mapFilterFirst<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U
+): U | undefined {
+  assertArray(array);
+
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    return template(element, i, array);
+  }
+
+  return undefined;
+}
+
+/**
+ * Paginated version of `mapFilter` that also reports how many elements passed the filter in total.
+ *
+ * The filter runs for every element (until it returns `STOP`) so the count is exact, but the template only
+ * runs for the elements inside the `offset`/`limit` window.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each passing element inside the window.
+ * @param {MapFilterOptions} options `offset` and `limit` over the passing elements
+ */
+export function mapFilterPage<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  options: PageOptions
+): MapFilterPage<U>;
+export function mapFilterPage<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: PageOptions
+): MapFilterPage<U>;
+export function mapFilterPage<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  options: PageOptions
+): MapFilterPage<U> {
+  assertArray(array);
+  const { offset, limit } = resolveRange(options);
+  const end = offset + limit;
+
+  const results: U[] = [];
+  let total = 0;
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    if (total >= offset && total < end) {
+      results.push(template(element, i, array));
+    }
+    total++;
+  }
+
+  return { results, total };
+}
@@ -0,0 +1,221 @@
+import { writeFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import mapFilter, * as main from "./index";
+import { mapFilterParallel } from "./parallel";
+
+// Writes a module of callbacks to a temporary directory for the `{ module, export }` form
+const useCallbackModule = (): (() => string) => {
+  let dir: string;
+  let modulePath: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "map-filter-"));
+    modulePath = join(dir, "callbacks.cjs");
+    writeFileSync(
+      modulePath,
+      [
+        "exports.isOdd = (x) => x % 2 === 1;",
+        "exports.square = (x) => x * x;",
+        "exports.notAFunction = 42;",
+      ].join("\n")
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  return () => modulePath;
+};
+
+describe("mapFilterParallel", () => {
+  const isEven = (x: number) => x % 2 === 0;
+  const double = (x: number) => x * 2;
+
+  it("returns empty Array when given an empty Array", async () => {
+    await expect(mapFilterParallel([], isEven, double)).resolves.toEqual([]);
+  });
+
+  describe("below the threshold", () => {
+    it("runs on the calling thread, so callbacks may close over variables", async () => {
+      const factor = 3;
+      const result = await mapFilterParallel(
+        [1, 2, 3, 4],
+        isEven,
+        (x) => x * factor
+      );
+      expect(result).toEqual([6, 12]);
+    });
+
+    it("returns a plain array for typed array input", async () => {
+      const result = await mapFilterParallel(
+        new Float64Array([1.5, 2, 3.5]),
+        (x) => Number.isInteger(x),
+        (x, index) => [x * 10, index]
+      );
+      expect(result).toEqual([[20, 1]]);
+    });
+
+    describe("module callbacks", () => {
+      const callbackModule = useCallbackModule();
+
+      it("loads named exports by path or file: URL", async () => {
+        const modulePath = callbackModule();
+        const result = await mapFilterParallel(
+          [1, 2, 3, 4, 5],
+          { module: modulePath, export: "isOdd" },
+          { module: pathToFileURL(modulePath).href, export: "square" }
+        );
+        expect(result).toEqual([1, 9, 25]);
+      });
+
+      it("rejects when the export is not a function", async () => {
+        await expect(
+          mapFilterParallel(
+            [1, 2],
+            { module: callbackModule(), export: "notAFunction" },
+            double
+          )
+        ).rejects.toThrow(
+          new TypeError(
+            `Export 'notAFunction' of ${callbackModule()} is not a function`
+          )
+        );
+      });
+    });
+  });
+
+  describe("on worker threads", () => {
+    const options = { threads: 2, threshold: 0 };
+
+    it("matches mapFilter, with indices from the whole input", async () => {
+      const array = Array.from({ length: 11 }, (_, i) => i);
+      const filter = (x: number) => x % 3 !== 0;
+      const template = (x: number, index?: number) => `${x}-${index}`;
+
+      const result = await mapFilterParallel(array, filter, template, options);
+      expect(result).toEqual(mapFilter(array, filter, template));
+    });
+
+    it("skips holes in plain arrays", async () => {
+      const sparseArray = [1, , 3, , 5, , 7];
+      const result = await mapFilterParallel(
+        sparseArray,
+        () => true,
+        (x, index) => `${x}-${index}`,
+        options
+      );
+      expect(result).toEqual(["1-0", "3-2", "5-4", "7-6"]);
+    });
+
+    it("shares typed arrays, including views into a larger buffer", async () => {
+      const buffer = new Int32Array(Array.from({ length: 12 }, (_, i) => i));
+      const view = buffer.subarray(2, 10);
+
+      const result = await mapFilterParallel(
+        view,
+        (x) => x % 2 === 0,
+        (x, index) => [x, index],
+        { threads: 3, threshold: 0 }
+      );
+      expect(result).toEqual([
+        [2, 0],
+        [4, 2],
+        [6, 4],
+        [8, 6],
+      ]);
+    });
+
+    it("accepts typed arrays already backed by a SharedArrayBuffer", async () => {
+      const shared = new Uint8Array(new SharedArrayBuffer(6));
+      shared.set([5, 10, 15, 20, 25, 30]);
+
+      const result = await mapFilterParallel(
+        shared,
+        (x) => x > 10,
+        (x) => x / 5,
+        options
+      );
+      expect(result).toEqual([3, 4, 5, 6]);
+    });
+
+    it("uses no more threads than there are elements", async () => {
+      const result = await mapFilterParallel([1, 2], isEven, double, {
+        threads: 8,
+        threshold: 0,
+      });
+      expect(result).toEqual([4]);
+    });
+
+    describe("module callbacks", () => {
+      const callbackModule = useCallbackModule();
+
+      it("loads named exports in each worker", async () => {
+        const modulePath = callbackModule();
+        const result = await mapFilterParallel(
+          [1, 2, 3, 4, 5],
+          { module: modulePath, export: "isOdd" },
+          { module: modulePath, export: "square" },
+          options
+        );
+        expect(result).toEqual([1, 9, 25]);
+      });
+
+      it("rejects when the export is not a function", async () => {
+        await expect(
+          mapFilterParallel(
+            [1, 2],
+            { module: callbackModule(), export: "notAFunction" },
+            double,
+            options
+          )
+        ).rejects.toThrow("is not a function");
+      });
+    });
+
+    it("rejects when a callback throws in a worker", async () => {
+      await expect(
+        mapFilterParallel(
+          [1, 2, 3],
+          () => {
+            throw new Error("boom");
+          },
+          double,
+          options
+        )
+      ).rejects.toThrow("boom");
+    });
+  });
+
+  it("is not part of the main entry point", () => {
+    expect(main).not.toHaveProperty("mapFilterParallel");
+  });
+
+  it("rejects invalid thread counts, even below the threshold", async () => {
+    for (const threads of [0, -1, 1.5, NaN]) {
+      for (const threshold of [0, Infinity]) {
+        await expect(
+          mapFilterParallel([1], isEven, double, { threads, threshold })
+        ).rejects.toThrow(new RangeError("threads must be a positive integer"));
+      }
+    }
+  });
+
+  it("rejects invalid thresholds", async () => {
+    for (const threshold of [-1, NaN]) {
+      await expect(
+        mapFilterParallel([1], isEven, double, { threshold })
+      ).rejects.toThrow(
+        new RangeError("threshold must be a non-negative number")
+      );
+    }
+  });
+
+  it("should reject with TypeError when first argument is not an array", async () => {
+    await expect(
+      mapFilterParallel("string" as any, isEven, double)
+    ).rejects.toThrow("First argument must be an array or typed array");
+  });
+});
@@ -0,0 +1,284 @@
+import mapFilter from "./mapFilter.js";
+import { mapFilterTyped } from "./typed.js";
+import type { TypedArray, TypedArrayElement } from "./typed.js";
+
+/**
+ * A callback that can run inside a worker thread: either a self-contained function (it is serialised with
+ * `Function.prototype.toString`, so it must not close over outer variables), or a named export of a module
+ * given by absolute path or `file:` URL.
+ */
+export type WorkerCallback<A extends unknown[], R> =
+  ((...args: A) => R) | { module: string; export?: string };
+
+export type MapFilterParallelOptions = {
+  /** Number of worker threads. Defaults to the available parallelism of the machine. */
+  threads?: number;
+  /** Inputs shorter than this run synchronously on the calling thread. Defaults to `100000`. */
+  threshold?: number;
+};
+
+type SerialisedCallback = { source: string } | { url: string; name: string };
+
+type TypedArrayName =
+  | "Int8Array"
+  | "Uint8Array"
+  | "Uint8ClampedArray"
+  | "Int16Array"
+  | "Uint16Array"
+  | "Int32Array"
+  | "Uint32Array"
+  | "Float32Array"
+  | "Float64Array"
+  | "BigInt64Array"
+  | "BigUint64Array";
+
+type WorkerInput = {
+  filter: SerialisedCallback;
+  template: SerialisedCallback;
+  offset: number;
+  array?: ReadonlyArray<unknown>;
+  shared?: {
+    buffer: SharedArrayBuffer;
+    type: TypedArrayName;
+    byteOffset: number;
+    length: number;
+  };
+};
+
+const DEFAULT_THRESHOLD = 100000;
+
+// Runs in each worker (evaluated as a CommonJS script). It loads the callbacks, runs the same loop as
+// `mapFilter` over its chunk with source indices, and posts the results back.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+
+const load = async (callback) => {
+  if ("source" in callback) return (0, eval)("(" + callback.source + ")");
+
+  const module = await import(callback.url);
+  const fn = module[callback.name];
+  if (typeof fn !== "function") {
+    throw new TypeError("Export '" + callback.name + "' of " + callback.url + " is not a function");
+  }
+  return fn;
+};
+
+(async () => {
+  const filter = await load(workerData.filter);
+  const template = await load(workerData.template);
+  const { offset, shared } = workerData;
+  const array = shared
+    ? new globalThis[shared.type](shared.buffer, shared.byteOffset, shared.length)
+    : workerData.array;
+
+  const results = [];
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    if (!(i in array)) continue;
+
+    const element = array[i];
+    if (filter(element, offset + i)) {
+      results.push(template(element, offset + i));
+    }
+  }
+  parentPort.postMessage(results);
+})();
+`;
+
+function isTypedArray(array: unknown): array is TypedArray {
+  return ArrayBuffer.isView(array) && !(array instanceof DataView);
+}
+
+function toModuleUrl(path: string): Promise<string> {
+  if (path.startsWith("file:")) return Promise.resolve(path);
+
+  return import("url").then(({ pathToFileURL }) => pathToFileURL(path).href);
+}
+
+// The CommonJS build compiles `import()` to `require()`, which takes a file path rather than a `file:` URL
+function toModuleSpecifier(path: string): Promise<string> {
+  if (typeof require !== "function") return toModuleUrl(path);
+  if (!path.startsWith("file:")) return Promise.resolve(path);
+
+  return import("url").then(({ fileURLToPath }) => fileURLToPath(path));
+}
+
+async function serialise(
+  callback: WorkerCallback<never[], unknown>
+): Promise<SerialisedCallback> {
+  if (typeof callback === "function") {
+    return { source: callback.toString() };
+  }
+  return {
+    url: await toModuleUrl(callback.module),
+    name: callback.export ?? "default",
+  };
+}
+
+async function resolveLocally<A extends unknown[], R>(
+  callback: WorkerCallback<A, R>
+): Promise<(...args: A) => R> {
+  if (typeof callback === "function") return callback;
+
+  const module = await import(await toModuleSpecifier(callback.module));
+  const fn = module[callback.export ?? "default"];
+  if (typeof fn !== "function") {
+    throw new TypeError(
+      `Export '${callback.export ?? "default"}' of ${callback.module} is not a function`
+    );
+  }
+  return fn;
+}
+
+// Typed arrays are shared rather than cloned: cloning a view copies its whole underlying buffer for
+// every worker, so non-shared input is copied once into a SharedArrayBuffer that all workers read
+function share(array: TypedArray): NonNullable<WorkerInput["shared"]> {
+  const type = array.constructor.name as TypedArrayName;
+  if (array.buffer instanceof SharedArrayBuffer) {
+    return {
+      buffer: array.buffer,
+      type,
+      byteOffset: array.byteOffset,
+      length: array.length,
+    };
+  }
+
+  const buffer = new SharedArrayBuffer(array.byteLength);
+  const copy = new (
+    array.constructor as new (buffer: SharedArrayBuffer) => TypedArray
+  )(buffer);
+  (copy as { set(source: TypedArray): void }).set(array);
+  return { buffer, type, byteOffset: 0, length: array.length };
+}
+
+/**
+ * Runs `mapFilter` across worker threads for very large, CPU-bound inputs, and merges the results in the
+ * original order.
+ *
+ * The input is split into one contiguous chunk per thread; callbacks still receive the element's index in
+ * the whole input. Plain arrays are copied to each worker (holes are preserved and skipped), while typed
+ * arrays are shared through a `SharedArrayBuffer`. Inputs shorter than `threshold` run synchronously on the
+ * calling thread. Either way the result is a plain array. Elements and results must be structured-cloneable.
+ * Node.js only.
+ *
+ * @param {Array | TypedArray} array The elements to be filterMapped
+ * @param {WorkerCallback} filter A self-contained function, or `{ module, export }` naming a module export
+ * @param {WorkerCallback} template A self-contained function, or `{ module, export }` naming a module export
+ * @param {MapFilterParallelOptions} options Optional `threads` and `threshold`
+ */
+export async function mapFilterParallel<T, U>(
+  array: ReadonlyArray<T>,
+  filter: WorkerCallback<[element: T, index: number], boolean>,
+  template: WorkerCallback<[element: T, index: number], U>,
+  options?: MapFilterParallelOptions
+): Promise<U[]>;
+export async function mapFilterParallel<A extends TypedArray, U>(
+  array: A,
+  filter: WorkerCallback<
+    [element: TypedArrayElement<A>, index: number],
+    boolean
+  >,
+  template: WorkerCallback<[element: TypedArrayElement<A>, index: number], U>,
+  options?: MapFilterParallelOptions
+): Promise<U[]>;
+export async function mapFilterParallel<T, U>(
+  array: ReadonlyArray<T> | TypedArray,
+  filter: WorkerCallback<[element: T, index: number], boolean>,
+  template: WorkerCallback<[element: T, index: number], U>,
+  options: MapFilterParallelOptions = {}
+): Promise<U[]> {
+  if (!Array.isArray(array) && !isTypedArray(array)) {
+    throw new TypeError("First argument must be an array or typed array");
+  }
+
+  const { threshold = DEFAULT_THRESHOLD } = options;
+  if (
+    options.threads !== undefined &&
+    (!Number.isInteger(options.threads) || options.threads < 1)
+  ) {
+    throw new RangeError("threads must be a positive integer");
+  }
+  if (!(threshold >= 0)) {
+    throw new RangeError("threshold must be a non-negative number");
+  }
+  const len = array.length;
+
+  if (len < threshold) {
+    const localFilter = await resolveLocally(filter);
+    const localTemplate = await resolveLocally(template);
+    return isTypedArray(array)
+      ? mapFilterTyped(
+          array,
+          localFilter as (element: number | bigint, index: number) => boolean,
+          localTemplate as (element: number | bigint, index: number) => U
+        )
+      : mapFilter(array, localFilter, localTemplate);
+  }
+
+  const [{ Worker }, os] = await Promise.all([
+    import("worker_threads"),
+    import("os"),
+  ]);
+  const {
+    threads = typeof os.availableParallelism === "function"
+      ? os.availableParallelism()
+      : os.cpus().length,
+  } = options;
+
+  const [filterSource, templateSource] = await Promise.all([
+    serialise(filter as WorkerCallback<never[], unknown>),
+    serialise(template as WorkerCallback<never[], unknown>),
+  ]);
+  const shared = isTypedArray(array) ? share(array) : undefined;
+
+  const chunkCount = Math.max(1, Math.min(threads, len));
+  const chunkSize = Math.ceil(len / chunkCount);
+  const workers: InstanceType<typeof Worker>[] = [];
+
+  const runChunk = (offset: number): Promise<U[]> => {
+    const end = Math.min(offset + chunkSize, len);
+    const workerData: WorkerInput = {
+      filter: filterSource,
+      template: templateSource,
+      offset,
+    };
+    if (shared) {
+      const bytesPerElement = (array as TypedArray).BYTES_PER_ELEMENT;
+      workerData.shared = {
+        ...shared,
+        byteOffset: shared.byteOffset + offset * bytesPerElement,
+        length: end - offset,
+      };
+    } else {
+      workerData.array = (array as ReadonlyArray<T>).slice(offset, end);
+    }
+
+    return new Promise<U[]>((resolve, reject) => {
+      const worker = new Worker(WORKER_SOURCE, { eval: true, workerData });
+      workers.push(worker);
+      worker.once("message", resolve);
+      worker.once("error", reject);
+      worker.once("exit", (code) => {
+        if (code !== 0) {
+          reject(new Error(`Worker stopped with exit code ${code}`));
+        }
+      });
+    });
+  };
+
+  const chunks: Promise<U[]>[] = [];
+  for (let offset = 0; offset < len; offset += chunkSize) {
+    chunks.push(runChunk(offset));
+  }
+
+  try {
+    const results = await Promise.all(chunks);
+    const newArray: U[] = [];
+    for (const chunk of results) {
+      for (let i = 0; i < chunk.length; i++) newArray.push(chunk[i]);
+    }
+    return newArray;
+  } finally {
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+}
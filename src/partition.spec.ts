@@ -0,0 +1,96 @@
+import mapFilter, { mapPartition } from "./index";
+
+type Row = { id: number; email: string };
+
+const rows: Row[] = [
+  { id: 1, email: "a@example.com" },
+  { id: 2, email: "not-an-email" },
+  { id: 3, email: "c@example.com" },
+  { id: 4, email: "" },
+];
+const isValid = (row: Row) => row.email.includes("@");
+
+describe("mapPartition", () => {
+  it("returns two empty Arrays when given an empty Array", () => {
+    expect(
+      mapPartition(
+        [],
+        () => true,
+        (x) => x,
+        (x) => x
+      )
+    ).toEqual([[], []]);
+  });
+
+  it("maps passes and rejects with their own templates", () => {
+    const [valid, invalid] = mapPartition(
+      rows,
+      isValid,
+      (row) => row.email,
+      (row, index) => `row ${index}: invalid email for id ${row.id}`
+    );
+
+    expect(valid).toEqual(["a@example.com", "c@example.com"]);
+    expect(invalid).toEqual([
+      "row 1: invalid email for id 2",
+      "row 3: invalid email for id 4",
+    ]);
+  });
+
+  it("calls the filter once per element and exactly one template per element", () => {
+    const filter = jest.fn(isValid);
+    const passTemplate = jest.fn((row: Row) => row.id);
+    const failTemplate = jest.fn((row: Row) => row.id);
+
+    mapPartition(rows, filter, passTemplate, failTemplate);
+
+    expect(filter).toHaveBeenCalledTimes(4);
+    expect(passTemplate).toHaveBeenCalledTimes(2);
+    expect(failTemplate).toHaveBeenCalledTimes(2);
+    expect(passTemplate).toHaveBeenCalledWith(rows[0], 0, rows);
+    expect(failTemplate).toHaveBeenCalledWith(rows[1], 1, rows);
+  });
+
+  it("matches mapFilter for the passing side", () => {
+    const toId = (row: Row) => row.id;
+    const [passed] = mapPartition(rows, isValid, toId, toId);
+    expect(passed).toEqual(mapFilter(rows, isValid, toId));
+  });
+
+  it("skips holes on both sides", () => {
+    const sparseArray = [1, , 2, , 3];
+    const [passed, failed] = mapPartition(
+      sparseArray,
+      (x) => x! > 1,
+      (x, index) => `${x}-${index}`,
+      (x, index) => `${x}-${index}`
+    );
+
+    expect(passed).toEqual(["2-2", "3-4"]);
+    expect(failed).toEqual(["1-0"]);
+  });
+
+  it("narrows each side for type-guard filters", () => {
+    const values: Array<number | string> = [1, "two", 3];
+    const [numbers, strings] = mapPartition(
+      values,
+      (value): value is number => typeof value === "number",
+      (value) => value * 10,
+      (value) => value.toUpperCase()
+    );
+
+    expect(numbers).toEqual([10, 30]);
+    expect(strings).toEqual(["TWO"]);
+  });
+
+  it("should throw TypeError when first argument is not an array", () => {
+    expect(() =>
+      mapPartition(
+        null as any,
+        () => true,
+        (x) => x,
+        (x) => x
+      )
+    ).toThrow("First argument must be an array");
+  });
+});
@@ -0,0 +1,70 @@
+import { assertArray } from "./utils.js";
+
+// Falls back to `T` when `S` is not narrower, so untyped `failTemplate` callbacks aren't inferred as `never`
+type Rejected<T, S extends T> = [T] extends [S] ? T : Exclude<T, S>;
+
+/**
+ * When `filter` is a type guard, `passTemplate` receives the narrowed type `S` and `failTemplate`
+ * receives the remaining members of `T`.
+ */
+export function mapPartition<T, S extends T, P, F>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  passTemplate: (element: S, index: number, array: ReadonlyArray<T>) => P,
+  failTemplate: (
+    element: Rejected<T, S>,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => F
+): [P[], F[]];
+/**
+ * Splits an array into mapped passes and mapped rejects in a single pass.
+ *
+ * Elements with a truthy predicate from the `filter` are transformed by `passTemplate`, the rest by
+ * `failTemplate`. Holes are skipped and end up in neither side, like `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be partitioned
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three arguments.
+ * Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} passTemplate A function that accepts up to three
+ * arguments. Called for each element that has a truthy predicate from the `filter`.
+ * @param {(element: any, index: number, array: any[]) => any} failTemplate A function that accepts up to three
+ * arguments. Called for each element that has a falsy predicate from the `filter`.
+ */
+export function mapPartition<T, P, F>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  passTemplate: (element: T, index: number, array: ReadonlyArray<T>) => P,
+  failTemplate: (element: T, index: number, array: ReadonlyArray<T>) => F
+): [P[], F[]];
+export function mapPartition<T, P, F>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => boolean,
+  passTemplate: (element: T, index: number, array: ReadonlyArray<T>) => P,
+  // `never` keeps the type-guard overload's deferred `Rejected<T, S>` parameter compatible
+  failTemplate: (element: never, index: number, array: ReadonlyArray<T>) => F
+): [P[], F[]] {
+  assertArray(array);
+
+  const reject = failTemplate as (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => F;
+  const passed: P[] = [];
+  const failed: F[] = [];
+  const len = array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    if (filter(element, i, array)) {
+      passed.push(passTemplate(element, i, array));
+    } else {
+      failed.push(reject(element, i, array));
+    }
+  }
+
+  return [passed, failed];
+}
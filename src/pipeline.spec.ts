@@ -0,0 +1,159 @@
+import mapFilter, { pipeline, STOP } from "./index";
+import { expectType } from "./testUtils";
+import type { Equals } from "./testUtils";
+
+type Order = { id: number; total: number; customer?: { name: string } };
+
+const orders: Order[] = [
+  { id: 1, total: 40, customer: { name: "Ana" } },
+  { id: 2, total: 5 },
+  { id: 3, total: 120, customer: { name: "Ben" } },
+  { id: 4, total: 75, customer: { name: "Chen" } },
+  { id: 5, total: 300, customer: { name: "Dana" } },
+];
+
+describe("pipeline", () => {
+  it("runs all stages in one pass and matches chained mapFilter calls", () => {
+    const labels = pipeline<Order>()
+      .mapFilter(
+        (order) => order.customer !== undefined,
+        (order) => ({ name: order.customer!.name, total: order.total })
+      )
+      .filter((row) => row.total >= 50)
+      .map((row) => `${row.name}: ${row.total}`)
+      .run(orders);
+
+    const chained = mapFilter(
+      mapFilter(
+        orders,
+        (order) => order.customer !== undefined,
+        (order) => ({ name: order.customer!.name, total: order.total })
+      ),
+      (row) => row.total >= 50,
+      (row) => `${row.name}: ${row.total}`
+    );
+
+    expect(labels).toEqual(["Ben: 120", "Chen: 75", "Dana: 300"]);
+    expect(labels).toEqual(chained);
+    expectType<Equals<typeof labels, string[]>>();
+  });
+
+  it("visits each element through every stage before reading the next", () => {
+    const calls: string[] = [];
+    pipeline<number>()
+      .filter((n) => (calls.push(`filter ${n}`), true))
+      .map((n) => (calls.push(`map ${n}`), n))
+      .run([1, 2]);
+
+    expect(calls).toEqual(["filter 1", "map 1", "filter 2", "map 2"]);
+  });
+
+  it("passes each stage the index of its own input", () => {
+    const first = jest.fn((n: number, _index: number) => n % 2 === 0);
+    const second = jest.fn((_n: number, _index: number) => true);
+    pipeline<number>().filter(first).filter(second).run([1, 2, 3, 4, 5, 6]);
+
+    expect(first.mock.calls.map(([, index]) => index)).toEqual([
+      0, 1, 2, 3, 4, 5,
+    ]);
+    // Same as the intermediate array [2, 4, 6] of a chained call
+    expect(second.mock.calls).toEqual([
+      [2, 0],
+      [4, 1],
+      [6, 2],
+    ]);
+  });
+
+  it("narrows the value type with type guards", () => {
+    const values: Array<string | number> = ["a", 1, "b", 2];
+    const result = pipeline<string | number>()
+      .filter((value): value is string => typeof value === "string")
+      .map((value) => value.toUpperCase())
+      .run(values);
+
+    expect(result).toEqual(["A", "B"]);
+    expectType<Equals<typeof result, string[]>>();
+  });
+
+  describe("take", () => {
+    it("keeps the first values that reach it", () => {
+      const big = pipeline<Order>()
+        .filter((order) => order.total > 50)
+        .take(2)
+        .map((order) => order.id);
+      expect(big.run(orders)).toEqual([3, 4]);
+    });
+
+    it("applies at its position in the chain", () => {
+      const ids = pipeline<Order>()
+        .take(2)
+        .filter((order) => order.total > 10)
+        .map((order) => order.id);
+      expect(ids.run(orders)).toEqual([1]);
+    });
+
+    it("stops reading the source once satisfied", () => {
+      const source = jest.fn(function* () {
+        for (let i = 0; ; i++) yield i;
+      });
+      const pulled: number[] = [];
+      const result = pipeline<number>()
+        .filter((n) => (pulled.push(n), n % 3 === 0))
+        .take(3)
+        .run(source());
+
+      expect(result).toEqual([0, 3, 6]);
+      expect(pulled).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    });
+
+    it("does not read the source at all for take(0)", () => {
+      const filter = jest.fn(() => true);
+      expect(pipeline<number>().filter(filter).take(0).run([1, 2])).toEqual([]);
+      expect(filter).not.toHaveBeenCalled();
+    });
+
+    it.each([-1, 1.5, NaN, Infinity])("rejects a count of %p", (count) => {
+      expect(() => pipeline<number>().take(count)).toThrow(
+        new RangeError("take count must be a non-negative integer")
+      );
+    });
+  });
+
+  it("stops everything when a filter returns STOP", () => {
+    const result = pipeline<number>()
+      .mapFilter(
+        (n) => (n > 3 ? STOP : true),
+        (n) => n * 10
+      )
+      .run([1, 2, 3, 4, 5]);
+    expect(result).toEqual([10, 20, 30]);
+  });
+
+  it("runs on iterables and skips holes in arrays", () => {
+    const double = pipeline<number>().map((n, index) => [n * 2, index]);
+
+    expect(double.run(new Set([1, 2]))).toEqual([
+      [2, 0],
+      [4, 1],
+    ]);
+    expect(double.run([, 1, , 2] as number[])).toEqual([
+      [2, 1],
+      [4, 3],
+    ]);
+    expect(() => double.run(42 as any)).toThrow(
+      new TypeError("First argument must be iterable")
+    );
+  });
+
+  it("can be reused and extended without changing the original", () => {
+    const even = pipeline<number>().filter((n) => n % 2 === 0);
+    const firstEven = even.take(1);
+    const squares = even.map((n) => n * n);
+
+    expect(even.run([1, 2, 3, 4])).toEqual([2, 4]);
+    expect(firstEven.run([1, 2, 3, 4])).toEqual([2]);
+    expect(firstEven.run([6, 8])).toEqual([6]);
+    expect(squares.run([1, 2, 3, 4])).toEqual([4, 16]);
+    expect(pipeline<number>().run([1, 2])).toEqual([1, 2]);
+  });
+});
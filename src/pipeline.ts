@@ -0,0 +1,149 @@
+import { STOP } from "./sentinels.js";
+import { assertIterable } from "./utils.js";
+
+/**
+ * A reusable chain of stages built by `pipeline()`. Every method returns a new pipeline and leaves this one
+ * unchanged, so a shared prefix can be extended in several ways.
+ *
+ * Callbacks receive the value and its index in the stage's input: the source index for the first stage, and
+ * for later stages the position the value would have had in the intermediate array of an equivalent
+ * `mapFilter` chain. Returning `STOP` from a filter ends the whole run.
+ */
+export interface Pipeline<T, U> {
+  mapFilter<S extends U, V>(
+    filter: (value: U, index: number) => value is S,
+    template: (value: S, index: number) => V
+  ): Pipeline<T, V>;
+  mapFilter<V>(
+    filter: (value: U, index: number) => boolean | typeof STOP,
+    template: (value: U, index: number) => V
+  ): Pipeline<T, V>;
+  filter<S extends U>(
+    filter: (value: U, index: number) => value is S
+  ): Pipeline<T, S>;
+  filter(
+    filter: (value: U, index: number) => boolean | typeof STOP
+  ): Pipeline<T, U>;
+  map<V>(template: (value: U, index: number) => V): Pipeline<T, V>;
+  /** Keeps the first `count` values that reach this stage; the source is not read any further after that */
+  take(count: number): Pipeline<T, U>;
+  /** Runs every stage over `input` in a single pass and returns the values that come out of the last one */
+  run(input: Iterable<T>): U[];
+}
+
+type Callback = (value: unknown, index: number) => unknown;
+
+type Stage =
+  | { kind: "mapFilter"; filter: Callback; template: Callback }
+  | { kind: "filter"; filter: Callback }
+  | { kind: "map"; template: Callback }
+  | { kind: "take"; count: number };
+
+// Pushes one value through the remaining stages. Returns `false` once no further value can get through, so
+// the caller can stop reading the source.
+type Step = (value: unknown, index: number) => boolean;
+
+function compile(stages: readonly Stage[], results: unknown[]): Step {
+  let step: Step = (value) => {
+    results.push(value);
+    return true;
+  };
+
+  // Built from the last stage back, so each stage calls straight into the next one. Counters live in the
+  // closures, which is why a fresh chain is built for every run.
+  for (let s = stages.length - 1; s >= 0; s--) {
+    const stage = stages[s];
+    const next = step;
+    let emitted = 0;
+
+    switch (stage.kind) {
+      case "mapFilter": {
+        const { filter, template } = stage;
+        step = (value, index) => {
+          const predicate = filter(value, index);
+          if (!predicate) return true;
+          if (predicate === STOP) return false;
+
+          return next(template(value, index), emitted++);
+        };
+        break;
+      }
+      case "filter": {
+        const { filter } = stage;
+        step = (value, index) => {
+          const predicate = filter(value, index);
+          if (!predicate) return true;
+          if (predicate === STOP) return false;
+
+          return next(value, emitted++);
+        };
+        break;
+      }
+      case "map": {
+        const { template } = stage;
+        step = (value, index) => next(template(value, index), index);
+        break;
+      }
+      case "take": {
+        let remaining = stage.count;
+        step = (value, index) => next(value, index) && --remaining > 0;
+        break;
+      }
+    }
+  }
+
+  return step;
+}
+
+function create<T, U>(stages: readonly Stage[]): Pipeline<T, U> {
+  const extend = <V>(stage: Stage) => create<T, V>([...stages, stage]);
+
+  return {
+    mapFilter: (filter: Callback, template: Callback) =>
+      extend({ kind: "mapFilter", filter, template }),
+    filter: (filter: Callback) => extend({ kind: "filter", filter }),
+    map: (template: Callback) => extend({ kind: "map", template }),
+    take: (count: number) => {
+      if (!Number.isInteger(count) || count < 0) {
+        throw new RangeError("take count must be a non-negative integer");
+      }
+      return extend({ kind: "take", count });
+    },
+    run: (input: Iterable<T>) => {
+      assertIterable(input);
+
+      const results: U[] = [];
+      // Nothing can pass a `take(0)`, so don't pull even one element from the source
+      if (stages.some((stage) => stage.kind === "take" && stage.count === 0)) {
+        return results;
+      }
+
+      const step = compile(stages, results);
+      if (Array.isArray(input)) {
+        for (let i = 0; i < input.length; i++) {
+          // Skip holes in the array (e.g., [, , 1, , 2])
+          if (!(i in input)) continue;
+          if (!step(input[i], i)) break;
+        }
+      } else {
+        let i = 0;
+        for (const element of input) {
+          if (!step(element, i++)) break;
+        }
+      }
+      return results;
+    },
+  } as Pipeline<T, U>;
+}
+
+/**
+ * Starts a pipeline of `mapFilter`, `filter`, `map` and `take` stages that runs as one fused loop: each source
+ * element goes through every stage before the next one is read, and no intermediate arrays are allocated.
+ *
+ * `pipeline<T>().mapFilter(f1, t1).filter(f2).map(t2).take(n).run(input)` returns the same values as chaining
+ * the equivalent array calls, but stops reading `input` as soon as `take` is satisfied. The built pipeline can
+ * be run on any number of arrays or iterables; arrays skip holes like `mapFilter` does.
+ */
+export function pipeline<T>(): Pipeline<T, T> {
+  return create<T, T>([]);
+}
@@ -0,0 +1,218 @@
+import mapFilter, { compilePredicate, SpecError } from "./index";
+import type { Predicate } from "./index";
+
+type User = {
+  name: string;
+  age: number;
+  active: boolean;
+  region: string;
+  email?: string;
+  address?: { country: string; city?: string } | null;
+};
+
+const users: User[] = [
+  {
+    name: "Ana",
+    age: 34,
+    active: true,
+    region: "EU",
+    email: "ana@example.com",
+    address: { country: "PT", city: "Lisbon" },
+  },
+  { name: "Ben", age: 17, active: true, region: "US", address: null },
+  {
+    name: "Chen",
+    age: 52,
+    active: false,
+    region: "APAC",
+    email: "chen@example.org",
+  },
+  {
+    name: "Dana",
+    age: 18,
+    active: true,
+    region: "US",
+    address: { country: "US" },
+  },
+];
+
+const names = (spec: Predicate) =>
+  mapFilter(users, compilePredicate<User>(spec), (user) => user.name);
+
+const compileError = (spec: unknown): SpecError => {
+  try {
+    compilePredicate(spec as Predicate);
+  } catch (error) {
+    return error as SpecError;
+  }
+  throw new Error("expected the spec to be rejected");
+};
+
+describe("compilePredicate", () => {
+  it("compiles into a filter usable with mapFilter", () => {
+    expect(
+      names({ active: true, age: { $gte: 18 }, region: { $in: ["EU", "US"] } })
+    ).toEqual(["Ana", "Dana"]);
+  });
+
+  it("matches everything with an empty spec", () => {
+    expect(names({})).toEqual(["Ana", "Ben", "Chen", "Dana"]);
+  });
+
+  it("round-trips through JSON", () => {
+    const spec: Predicate = {
+      $or: [{ region: "EU" }, { age: { $lt: 18 } }],
+      name: { $regex: "^[ab]", $flags: "i" },
+    };
+    expect(names(JSON.parse(JSON.stringify(spec)))).toEqual(names(spec));
+    expect(names(spec)).toEqual(["Ana", "Ben"]);
+  });
+
+  describe("literals and comparisons", () => {
+    it("matches literals with strict equality", () => {
+      expect(names({ age: 18 })).toEqual(["Dana"]);
+      expect(names({ age: "18" as any })).toEqual([]);
+      expect(names({ address: null })).toEqual(["Ben"]);
+    });
+
+    it("supports $eq and $ne", () => {
+      expect(names({ region: { $eq: "US" } })).toEqual(["Ben", "Dana"]);
+      expect(names({ region: { $ne: "US" } })).toEqual(["Ana", "Chen"]);
+    });
+
+    it("supports range operators on numbers and strings", () => {
+      expect(names({ age: { $gt: 17, $lt: 52 } })).toEqual(["Ana", "Dana"]);
+      expect(names({ age: { $lte: 17 } })).toEqual(["Ben"]);
+      expect(names({ name: { $gte: "C" } })).toEqual(["Chen", "Dana"]);
+    });
+
+    it("does not compare across types", () => {
+      const filter = compilePredicate({ value: { $gt: 9 } });
+      expect(filter({ value: "10" })).toBe(false);
+      expect(filter({ value: 10 })).toBe(true);
+      expect(filter({})).toBe(false);
+    });
+
+    it("supports $in and $nin", () => {
+      expect(names({ region: { $nin: ["EU", "US"] } })).toEqual(["Chen"]);
+      expect(names({ "address.country": { $in: ["PT", "ES"] } })).toEqual([
+        "Ana",
+      ]);
+    });
+  });
+
+  describe("paths", () => {
+    it("reads dotted paths", () => {
+      expect(names({ "address.country": "US" })).toEqual(["Dana"]);
+    });
+
+    it("matches nested predicates against the object at a path", () => {
+      expect(names({ address: { country: "PT", city: "Lisbon" } })).toEqual([
+        "Ana",
+      ]);
+      expect(names({ address: {} })).toEqual(["Ana", "Dana"]);
+    });
+
+    it("reads missing and null intermediate values as undefined", () => {
+      expect(names({ "address.city": { $exists: false } })).toEqual([
+        "Ben",
+        "Chen",
+        "Dana",
+      ]);
+    });
+
+    it("reads array elements by index", () => {
+      const filter = compilePredicate({ "tags.0": "new" });
+      expect(filter({ tags: ["new", "sale"] })).toBe(true);
+      expect(filter({ tags: ["sale"] })).toBe(false);
+    });
+
+    it("only reads own properties", () => {
+      const filter = compilePredicate({ constructor: { $exists: true } });
+      expect(filter({})).toBe(false);
+      expect(compilePredicate({ "toString.name": "toString" })({})).toBe(false);
+      expect(
+        compilePredicate(JSON.parse('{ "__proto__": { "polluted": true } }'))(
+          {}
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("existence and regular expressions", () => {
+    it("checks existence with $exists", () => {
+      expect(names({ email: { $exists: true } })).toEqual(["Ana", "Chen"]);
+      expect(names({ email: { $exists: false } })).toEqual(["Ben", "Dana"]);
+    });
+
+    it("tests strings with $regex and $flags", () => {
+      expect(names({ email: { $regex: "\\.org$" } })).toEqual(["Chen"]);
+      expect(names({ name: { $regex: "^d", $flags: "i" } })).toEqual(["Dana"]);
+      expect(names({ age: { $regex: "3" } })).toEqual([]);
+    });
+  });
+
+  describe("logical operators", () => {
+    it("supports $and and $or", () => {
+      expect(
+        names({
+          $or: [
+            { $and: [{ region: "US" }, { age: { $gte: 18 } }] },
+            { active: false },
+          ],
+        })
+      ).toEqual(["Chen", "Dana"]);
+    });
+
+    it("supports $not on whole predicates and on conditions", () => {
+      expect(names({ $not: { region: "US" } })).toEqual(["Ana", "Chen"]);
+      expect(names({ age: { $not: { $gte: 18 } } })).toEqual(["Ben"]);
+      expect(names({ region: { $not: "US" } })).toEqual(["Ana", "Chen"]);
+    });
+  });
+
+  describe("compilation errors", () => {
+    it("point to the offending path", () => {
+      const error = compileError({
+        active: true,
+        $or: [{ region: "EU" }, { age: { $gte: true } }],
+      });
+
+      expect(error).toBeInstanceOf(SpecError);
+      expect(error.name).toBe("SpecError");
+      expect(error.path).toBe("$or[1].age.$gte");
+      expect(error.message).toBe(
+        "$gte expects a number or a string (at $or[1].age.$gte)"
+      );
+    });
+
+    it.each([
+      [{ age: { $between: [1, 2] } }, "age.$between", "Unknown operator"],
+      [{ $nor: [] }, "$nor", "Unknown operator"],
+      [{ $or: [] }, "$or", "must be a non-empty array"],
+      [{ $and: {} }, "$and", "must be a non-empty array"],
+      [{ region: { $in: "EU" } }, "region.$in", "expects an array"],
+      [{ region: { $in: ["EU", {}] } }, "region.$in[1]", "literal values"],
+      [{ region: ["EU", "US"] }, "region", "use $in"],
+      [{ email: { $exists: "yes" } }, "email.$exists", "true or false"],
+      [{ name: { $regex: "(" } }, "name.$regex", "Invalid regular expression"],
+      [{ name: { $regex: "a", $flags: "g" } }, "name.$flags", "g or y"],
+      [{ name: { $flags: "i" } }, "name.$flags", "requires $regex"],
+      [{ address: { $exists: true, city: "x" } }, "address", "can't be mixed"],
+      [{ "address..city": "x" }, "address..city", "Invalid path"],
+      [{ $not: "x" }, "$not", "plain object"],
+      [{ age: undefined }, "age", "Unsupported value"],
+    ])("rejects %j at %s", (spec, path, message) => {
+      const error = compileError(spec);
+      expect(error).toBeInstanceOf(SpecError);
+      expect(error.path).toBe(path);
+      expect(error.message).toContain(message);
+    });
+
+    it("rejects a spec that is not an object", () => {
+      const error = compileError([{ active: true }]);
+      expect(error.path).toBe("");
+      expect(error.message).toBe("Predicate must be a plain object");
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { SpecError } from "./errors.js";
+import { isPlainObject, joinPath, readPath, splitPath } from "./utils.js";
+
+export type PredicateLiteral = string | number | boolean | null;
+
+/** Operators applied to the value at one path */
+export type PredicateCondition = {
+  $eq?: PredicateLiteral;
+  $ne?: PredicateLiteral;
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $in?: PredicateLiteral[];
+  $nin?: PredicateLiteral[];
+  /** `true` matches values other than `undefined`, `false` matches `undefined` (including missing keys) */
+  $exists?: boolean;
+  /** Regular expression source, tested against string values only */
+  $regex?: string;
+  /** Flags for `$regex`, e.g. `"i"`. The stateful `g` and `y` flags are not allowed. */
+  $flags?: string;
+  $not?: PredicateLiteral | PredicateCondition;
+};
+
+/**
+ * A JSON-serialisable predicate. Keys are dotted paths into the element (`"address.country"`) or the logical
+ * operators `$and`, `$or` and `$not`. Values are literals (matched with `===`), conditions made of operators,
+ * or nested predicates for the object found at that path.
+ */
+export type Predicate = {
+  $and?: Predicate[];
+  $or?: Predicate[];
+  $not?: Predicate;
+  [path: string]:
+    PredicateLiteral | PredicateCondition | Predicate | Predicate[] | undefined;
+};
+
+type Test = (value: unknown) => boolean;
+
+const always: Test = () => true;
+
+function isLiteral(value: unknown): value is PredicateLiteral {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+function every(tests: Test[]): Test {
+  if (tests.length === 0) return always;
+  if (tests.length === 1) return tests[0];
+
+  return (value) => {
+    for (let i = 0; i < tests.length; i++) {
+      if (!tests[i](value)) return false;
+    }
+    return true;
+  };
+}
+
+function some(tests: Test[]): Test {
+  if (tests.length === 1) return tests[0];
+
+  return (value) => {
+    for (let i = 0; i < tests.length; i++) {
+      if (tests[i](value)) return true;
+    }
+    return false;
+  };
+}
+
+function compileSpec(spec: unknown, path: string): Test {
+  if (!isPlainObject(spec)) {
+    throw new SpecError("Predicate must be a plain object", path);
+  }
+
+  const tests: Test[] = [];
+  for (const key of Object.keys(spec)) {
+    const value = spec[key];
+    const at = joinPath(path, key);
+
+    if (key === "$and" || key === "$or") {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new SpecError(`${key} must be a non-empty array`, at);
+      }
+      const branches = value.map((branch, i) =>
+        compileSpec(branch, joinPath(at, i))
+      );
+      tests.push(key === "$and" ? every(branches) : some(branches));
+    } else if (key === "$not") {
+      const negated = compileSpec(value, at);
+      tests.push((element) => !negated(element));
+    } else if (key.startsWith("$")) {
+      throw new SpecError(`Unknown operator ${key}`, at);
+    } else {
+      tests.push(compileField(key, value, at));
+    }
+  }
+
+  return every(tests);
+}
+
+function compileField(key: string, value: unknown, at: string): Test {
+  const keys = splitPath(key, at);
+  const test = compileValue(value, at);
+  return (element) => test(readPath(element, keys));
+}
+
+function compileValue(value: unknown, at: string): Test {
+  if (isLiteral(value)) return (actual) => actual === value;
+  if (Array.isArray(value)) {
+    throw new SpecError("Arrays can't be matched directly; use $in", at);
+  }
+  if (!isPlainObject(value)) {
+    throw new SpecError(`Unsupported value ${String(value)}`, at);
+  }
+
+  const keys = Object.keys(value);
+  const operators = keys.filter((key) => key.startsWith("$"));
+  if (operators.length === 0) {
+    const nested = compileSpec(value, at);
+    return (actual) =>
+      actual !== null && typeof actual === "object" && nested(actual);
+  }
+  if (operators.length !== keys.length) {
+    throw new SpecError("Operators and fields can't be mixed", at);
+  }
+
+  return compileCondition(value, at);
+}
+
+function compileCondition(
+  condition: Record<string, unknown>,
+  path: string
+): Test {
+  const tests: Test[] = [];
+  for (const operator of Object.keys(condition)) {
+    const operand = condition[operator];
+    const at = joinPath(path, operator);
+
+    switch (operator) {
+      case "$eq":
+      case "$ne": {
+        if (!isLiteral(operand)) {
+          throw new SpecError(`${operator} expects a literal value`, at);
+        }
+        tests.push(
+          operator === "$eq"
+            ? (actual) => actual === operand
+            : (actual) => actual !== operand
+        );
+        break;
+      }
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte":
+        tests.push(compileComparison(operator, operand, at));
+        break;
+      case "$in":
+      case "$nin": {
+        if (!Array.isArray(operand)) {
+          throw new SpecError(`${operator} expects an array`, at);
+        }
+        operand.forEach((item, i) => {
+          if (!isLiteral(item)) {
+            throw new SpecError(
+              `${operator} only accepts literal values`,
+              joinPath(at, i)
+            );
+          }
+        });
+        const values = new Set<unknown>(operand);
+        tests.push(
+          operator === "$in"
+            ? (actual) => values.has(actual)
+            : (actual) => !values.has(actual)
+        );
+        break;
+      }
+      case "$exists": {
+        if (typeof operand !== "boolean") {
+          throw new SpecError("$exists expects true or false", at);
+        }
+        tests.push((actual) => (actual !== undefined) === operand);
+        break;
+      }
+      case "$regex":
+        tests.push(compileRegex(operand, condition.$flags, path));
+        break;
+      case "$flags":
+        if (!("$regex" in condition)) {
+          throw new SpecError("$flags requires $regex", at);
+        }
+        break;
+      case "$not": {
+        const negated = compileValue(operand, at);
+        tests.push((actual) => !negated(actual));
+        break;
+      }
+      default:
+        throw new SpecError(`Unknown operator ${operator}`, at);
+    }
+  }
+
+  return every(tests);
+}
+
+function compileComparison(
+  operator: "$gt" | "$gte" | "$lt" | "$lte",
+  operand: unknown,
+  at: string
+): Test {
+  if (typeof operand !== "number" && typeof operand !== "string") {
+    throw new SpecError(`${operator} expects a number or a string`, at);
+  }
+
+  // Only values of the operand's type are compared, so `"10" > 9` can't match through coercion
+  const type = typeof operand;
+  // Typed as numbers for the compiler; strings compare lexicographically with the same operators
+  const bound = operand as number;
+  switch (operator) {
+    case "$gt":
+      return (actual) => typeof actual === type && (actual as number) > bound;
+    case "$gte":
+      return (actual) => typeof actual === type && (actual as number) >= bound;
+    case "$lt":
+      return (actual) => typeof actual === type && (actual as number) < bound;
+    case "$lte":
+      return (actual) => typeof actual === type && (actual as number) <= bound;
+  }
+}
+
+function compileRegex(source: unknown, flags: unknown, path: string): Test {
+  if (typeof source !== "string") {
+    throw new SpecError("$regex expects a string", joinPath(path, "$regex"));
+  }
+  if (flags !== undefined && typeof flags !== "string") {
+    throw new SpecError("$flags expects a string", joinPath(path, "$flags"));
+  }
+  if (flags !== undefined && /[gy]/.test(flags)) {
+    throw new SpecError(
+      "$flags can't include g or y",
+      joinPath(path, "$flags")
+    );
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flags);
+  } catch (error) {
+    throw new SpecError((error as Error).message, joinPath(path, "$regex"));
+  }
+  return (actual) => typeof actual === "string" && regex.test(actual);
+}
+
+/**
+ * Compiles a JSON-serialisable predicate into a `filter` function for `mapFilter` and its variants.
+ *
+ * `{ active: true, age: { $gte: 18 }, region: { $in: ["EU", "US"] } }` matches elements whose `active` is
+ * `true`, whose `age` is at least 18 and whose `region` is `"EU"` or `"US"`. Every key of an object must match.
+ * Paths only read own properties, so `constructor` or `__proto__` never reach the prototype. The spec is
+ * validated once, up front: a `SpecError` names the path of the first invalid part.
+ *
+ * @param {Predicate} spec The predicate to compile
+ */
+export function compilePredicate<T = unknown>(
+  spec: Predicate
+): (element: T) => boolean {
+  return compileSpec(spec, "");
+}
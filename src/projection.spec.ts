@@ -0,0 +1,255 @@
+import mapFilter, { compileProjection, SpecError } from "./index";
+import type { ProjectionFunctions, ProjectionSpec } from "./index";
+import { expectType } from "./testUtils";
+import type { Equals } from "./testUtils";
+
+type User = {
+  id: number;
+  name: string;
+  password: string;
+  tags: string[];
+  address?: { city: string; zip?: string };
+};
+
+const users: User[] = [
+  {
+    id: 1,
+    name: "Ana",
+    password: "x",
+    tags: ["admin"],
+    address: { city: "Lisbon", zip: "1000" },
+  },
+  { id: 2, name: "Ben", password: "y", tags: [] },
+];
+
+const compileError = (spec: unknown, functions?: object): SpecError => {
+  try {
+    compileProjection(spec as ProjectionSpec, functions as any);
+  } catch (error) {
+    return error as SpecError;
+  }
+  throw new Error("expected the spec to be rejected");
+};
+
+describe("compileProjection", () => {
+  it("compiles into a template usable with mapFilter", () => {
+    const result = mapFilter(
+      users,
+      (user) => user.id > 0,
+      compileProjection({ pick: ["id", "name"] })
+    );
+
+    expect(result).toEqual([
+      { id: 1, name: "Ana" },
+      { id: 2, name: "Ben" },
+    ]);
+    expectType<Equals<typeof result, { id: number; name: string }[]>>();
+  });
+
+  it("copies every other key with omit", () => {
+    const project = compileProjection({ omit: ["password", "tags"] });
+    const result = project(users[1]);
+
+    expect(result).toEqual({ id: 2, name: "Ben" });
+    expectType<
+      Equals<
+        typeof result,
+        { id: number; name: string; address?: User["address"] }
+      >
+    >();
+  });
+
+  it("renames fields and reads nested paths", () => {
+    const project = compileProjection({
+      pick: ["id"],
+      fields: { displayName: "name", city: "address.city", firstTag: "tags.0" },
+    });
+    const [ana, ben] = users.map(project);
+
+    expect(ana).toEqual({
+      id: 1,
+      displayName: "Ana",
+      city: "Lisbon",
+      firstTag: "admin",
+    });
+    expect(ben).toEqual({
+      id: 2,
+      displayName: "Ben",
+      city: undefined,
+      firstTag: undefined,
+    });
+    expectType<
+      Equals<
+        typeof ana,
+        {
+          id: number;
+          displayName: string;
+          city: string | undefined;
+          firstTag: string | undefined;
+        }
+      >
+    >();
+  });
+
+  it("fills undefined values with defaults", () => {
+    const project = compileProjection({
+      fields: {
+        city: { path: "address.city", default: "unknown" },
+        labels: { path: "address.labels" as string, default: ["none"] },
+      },
+    });
+
+    const [ana, ben] = users.map(project);
+    expect(ana.city).toBe("Lisbon");
+    expect(ben.city).toBe("unknown");
+    expectType<Equals<typeof ben.city, string>>();
+
+    // Object defaults are copied, so results don't share one instance
+    expect(ben.labels).toEqual(["none"]);
+    expect(project(users[1]).labels).not.toBe(ben.labels);
+  });
+
+  it("computes fields with named functions", () => {
+    const functions = {
+      upper: (value: string) => value.toUpperCase(),
+      initials: (user: User) => user.name.slice(0, 1),
+      count: (tags: string[]) => tags.length,
+    };
+    const project = compileProjection(
+      {
+        fields: {
+          name: { path: "name", compute: "upper" },
+          initial: { compute: "initials" },
+          tagCount: { path: "tags", compute: "count" },
+        },
+      },
+      functions
+    );
+    const result = project(users[0]);
+
+    expect(result).toEqual({ name: "ANA", initial: "A", tagCount: 1 });
+    expectType<
+      Equals<typeof result, { name: string; initial: string; tagCount: number }>
+    >();
+    // Typed functions are accepted without the constraint exposing `any`
+    expectType<
+      Equals<
+        Parameters<ProjectionFunctions[string]>,
+        [value: never, element: never]
+      >
+    >();
+  });
+
+  it("passes the element as the second argument and applies defaults first", () => {
+    const compute = jest.fn((zip: string, user: User) => `${user.id}:${zip}`);
+    const project = compileProjection(
+      {
+        fields: {
+          key: { path: "address.zip", default: "0000", compute: "key" },
+        },
+      },
+      { key: compute }
+    );
+
+    expect(users.map(project)).toEqual([{ key: "1:1000" }, { key: "2:0000" }]);
+    expect(compute).toHaveBeenCalledWith("0000", users[1]);
+  });
+
+  it("lets fields override picked keys", () => {
+    const project = compileProjection(
+      {
+        pick: ["id", "name"],
+        fields: { name: { path: "name", compute: "lower" } },
+      },
+      { lower: (value: string) => value.toLowerCase() }
+    );
+
+    expect(project(users[0])).toEqual({ id: 1, name: "ana" });
+  });
+
+  it("works from a spec stored as JSON", () => {
+    const spec = JSON.parse(
+      JSON.stringify({ pick: ["id"], fields: { city: "address.city" } })
+    ) as ProjectionSpec;
+    expect(users.map(compileProjection(spec))).toEqual([
+      { id: 1, city: "Lisbon" },
+      { id: 2, city: undefined },
+    ]);
+  });
+
+  describe("own properties only", () => {
+    it("does not read inherited properties through paths or pick", () => {
+      const project = compileProjection({
+        pick: ["constructor"],
+        fields: { ctor: "constructor", protoName: "__proto__.constructor" },
+      });
+      expect(project({})).toEqual({ ctor: undefined, protoName: undefined });
+      expect(Object.keys(project({}))).toEqual(["ctor", "protoName"]);
+    });
+
+    it("writes a __proto__ key as an own property", () => {
+      const project = compileProjection({
+        fields: JSON.parse('{ "__proto__": "polluted" }'),
+      });
+      const result = project({ polluted: { admin: true } }) as object;
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(["__proto__"]);
+      expect(({} as { admin?: boolean }).admin).toBeUndefined();
+    });
+  });
+
+  describe("compilation errors", () => {
+    it("point to the offending path", () => {
+      const error = compileError({
+        fields: { city: { path: "address..city" } },
+      });
+
+      expect(error).toBeInstanceOf(SpecError);
+      expect(error.path).toBe("fields.city.path");
+      expect(error.message).toBe(
+        'Invalid path "address..city" (at fields.city.path)'
+      );
+    });
+
+    it.each([
+      [{ select: ["id"] }, "select", 'Unknown key "select"'],
+      [{ pick: ["id"], omit: ["name"] }, "omit", "can't be combined"],
+      [{ pick: "id" }, "pick", "array of keys"],
+      [{ omit: ["id", 1] }, "omit[1]", "must be strings"],
+      [{ fields: [] }, "fields", "plain object"],
+      [{ fields: { a: 1 } }, "fields.a", "path or an object"],
+      [{ fields: { a: { from: "x" } } }, "fields.a.from", 'Unknown key "from"'],
+      [{ fields: { a: { path: 1 } } }, "fields.a.path", "must be a string"],
+      [
+        { fields: { a: { compute: "nope" } } },
+        "fields.a.compute",
+        "Unknown function",
+      ],
+      [{ fields: { a: { default: NaN } } }, "fields.a.default", "JSON value"],
+      [
+        { fields: { a: { default: [() => 1] } } },
+        "fields.a.default",
+        "JSON value",
+      ],
+    ])("rejects %j at %s", (spec, path, message) => {
+      const error = compileError(spec);
+      expect(error.path).toBe(path);
+      expect(error.message).toContain(message);
+    });
+
+    it("only looks up own functions", () => {
+      const error = compileError(
+        { fields: { a: { compute: "toString" } } },
+        {}
+      );
+      expect(error.path).toBe("fields.a.compute");
+    });
+
+    it("rejects a spec that is not an object", () => {
+      expect(compileError(null).message).toBe(
+        "Projection must be a plain object"
+      );
+    });
+  });
+});
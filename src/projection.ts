@@ -0,0 +1,286 @@
+import { SpecError } from "./errors.js";
+import {
+  isPlainObject,
+  joinPath,
+  readPath,
+  setOwn,
+  splitPath,
+} from "./utils.js";
+
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | readonly JsonValue[]
+  | { readonly [key: string]: JsonValue };
+
+/** Named functions that computed fields refer to by name, so the spec itself stays JSON */
+export type ProjectionFunctions = Record<
+  string,
+  (value: never, element: never) => unknown
+>;
+
+/**
+ * One output field: a dotted path to read (`"address.city"`), or an object that reads `path` (the whole
+ * element when omitted), replaces `undefined` with `default`, and then passes the value through the named
+ * `compute` function.
+ */
+export type ProjectionField =
+  string | { path?: string; default?: JsonValue; compute?: string };
+
+export type ProjectionSpec = {
+  /** Top-level keys copied as they are */
+  pick?: readonly string[];
+  /** Top-level keys left out; every other own enumerable key is copied */
+  omit?: readonly string[];
+  /** Output keys and where their values come from, applied after `pick` or `omit` */
+  fields?: { readonly [key: string]: ProjectionField };
+};
+
+type Simplify<O> = { [K in keyof O]: O[K] } & {};
+
+type PathValue<T, P extends string> = unknown extends T
+  ? unknown
+  : T extends null | undefined
+    ? undefined
+    : P extends `${infer Head}.${infer Rest}`
+      ? PathValue<KeyValue<T, Head>, Rest>
+      : KeyValue<T, P>;
+
+type KeyValue<T, K extends string> = T extends readonly (infer E)[]
+  ? K extends `${number}`
+    ? E | undefined
+    : undefined
+  : K extends keyof T
+    ? T[K]
+    : undefined;
+
+type WithDefault<V, Field> = Field extends { default: infer D }
+  ? Exclude<V, undefined> | D
+  : V;
+
+type FieldValue<T, Field, F> = Field extends string
+  ? PathValue<T, Field>
+  : Field extends { compute: infer Name }
+    ? Name extends keyof F
+      ? F[Name] extends (...args: never[]) => infer R
+        ? R
+        : unknown
+      : unknown
+    : Field extends { path: infer P extends string }
+      ? WithDefault<PathValue<T, P>, Field>
+      : WithDefault<T, Field>;
+
+type Base<T, P> = P extends { pick: readonly (infer K)[] }
+  ? Pick<T, Extract<K, keyof T>>
+  : P extends { omit: readonly (infer K)[] }
+    ? Omit<T, Extract<K, string>>
+    : {};
+
+type Fields<T, P, F> = P extends { fields: infer Spec }
+  ? { -readonly [K in keyof Spec]: FieldValue<T, Spec[K], F> }
+  : {};
+
+/** The output type of a projection spec applied to elements of type `T` */
+export type Projected<T, P extends ProjectionSpec, F = {}> = Simplify<
+  Omit<Base<T, P>, keyof Fields<T, P, F>> & Fields<T, P, F>
+>;
+
+type Writer = (element: unknown, target: Record<string, unknown>) => void;
+type Getter = (element: unknown) => unknown;
+
+const SPEC_KEYS = new Set(["pick", "omit", "fields"]);
+const FIELD_KEYS = new Set(["path", "default", "compute"]);
+
+function isJsonValue(value: unknown): boolean {
+  if (value === null) return true;
+
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return true;
+    case "number":
+      return Number.isFinite(value);
+    case "object":
+      if (Array.isArray(value)) return value.every(isJsonValue);
+      return isPlainObject(value) && Object.values(value).every(isJsonValue);
+    default:
+      return false;
+  }
+}
+
+function compileKeys(keys: unknown, at: string): string[] {
+  if (!Array.isArray(keys)) {
+    throw new SpecError("Expected an array of keys", at);
+  }
+  keys.forEach((key, i) => {
+    if (typeof key !== "string") {
+      throw new SpecError("Keys must be strings", joinPath(at, i));
+    }
+  });
+  return keys;
+}
+
+function compilePick(keys: string[]): Writer {
+  return (element, target) => {
+    if (element == null) return;
+
+    for (let k = 0; k < keys.length; k++) {
+      const key = keys[k];
+      if (Object.prototype.hasOwnProperty.call(element, key)) {
+        setOwn(target, key, (element as Record<string, unknown>)[key]);
+      }
+    }
+  };
+}
+
+function compileOmit(keys: string[]): Writer {
+  const omitted = new Set(keys);
+  return (element, target) => {
+    if (element == null) return;
+
+    for (const key of Object.keys(element)) {
+      if (!omitted.has(key)) {
+        setOwn(target, key, (element as Record<string, unknown>)[key]);
+      }
+    }
+  };
+}
+
+function compileDefault(value: unknown, at: string): () => unknown {
+  if (!isJsonValue(value)) {
+    throw new SpecError("default must be a JSON value", at);
+  }
+  if (value === null || typeof value !== "object") return () => value;
+
+  // Objects and arrays are copied for every element so results never share (and mutate) one default
+  const json = JSON.stringify(value);
+  return () => JSON.parse(json);
+}
+
+function compileField(
+  field: unknown,
+  at: string,
+  functions: ProjectionFunctions
+): Getter {
+  if (typeof field === "string") {
+    const keys = splitPath(field, at);
+    return (element) => readPath(element, keys);
+  }
+  if (!isPlainObject(field)) {
+    throw new SpecError("Field must be a path or an object", at);
+  }
+
+  for (const key of Object.keys(field)) {
+    if (!FIELD_KEYS.has(key)) {
+      throw new SpecError(`Unknown key "${key}"`, joinPath(at, key));
+    }
+  }
+
+  let read: Getter = (element) => element;
+  if (field.path !== undefined) {
+    if (typeof field.path !== "string") {
+      throw new SpecError("path must be a string", joinPath(at, "path"));
+    }
+    const keys = splitPath(field.path, joinPath(at, "path"));
+    read = (element) => readPath(element, keys);
+  }
+
+  if ("default" in field) {
+    const fallback = compileDefault(field.default, joinPath(at, "default"));
+    const readValue = read;
+    read = (element) => {
+      const value = readValue(element);
+      return value === undefined ? fallback() : value;
+    };
+  }
+
+  if (field.compute !== undefined) {
+    const name = field.compute;
+    const compute =
+      typeof name === "string" &&
+      Object.prototype.hasOwnProperty.call(functions, name)
+        ? functions[name]
+        : undefined;
+    if (typeof compute !== "function") {
+      throw new SpecError(
+        `Unknown function "${String(name)}"`,
+        joinPath(at, "compute")
+      );
+    }
+    // The functions declare their own parameter types; the spec decides what is passed to them at runtime
+    const call = compute as (value: unknown, element: unknown) => unknown;
+    const readValue = read;
+    read = (element) => call(readValue(element), element);
+  }
+
+  return read;
+}
+
+function compileFields(
+  fields: unknown,
+  functions: ProjectionFunctions
+): Writer {
+  if (!isPlainObject(fields)) {
+    throw new SpecError("fields must be a plain object", "fields");
+  }
+
+  const keys = Object.keys(fields);
+  const getters = keys.map((key) =>
+    compileField(fields[key], joinPath("fields", key), functions)
+  );
+  return (element, target) => {
+    for (let k = 0; k < keys.length; k++) {
+      setOwn(target, keys[k], getters[k](element));
+    }
+  };
+}
+
+/**
+ * Compiles a JSON-serialisable projection spec into a `template` function for `mapFilter` and its variants.
+ *
+ * `pick` (or `omit`) copies top-level keys, then each entry of `fields` adds an output key read from a dotted
+ * path, with an optional `default` for `undefined` and an optional `compute` function looked up by name in
+ * `functions`. Paths only read own properties. In TypeScript the output type is inferred from the spec and
+ * the element type. The spec is validated once, up front: a `SpecError` names the path of the first invalid
+ * part.
+ *
+ * @param {ProjectionSpec} spec The projection to compile
+ * @param {ProjectionFunctions} functions Functions that `compute` fields refer to by name
+ */
+export function compileProjection<
+  const P extends ProjectionSpec,
+  F extends ProjectionFunctions = {},
+>(spec: P, functions?: F): <T>(element: T) => Projected<T, P, F> {
+  if (!isPlainObject(spec)) {
+    throw new SpecError("Projection must be a plain object", "");
+  }
+  for (const key of Object.keys(spec)) {
+    if (!SPEC_KEYS.has(key)) {
+      throw new SpecError(`Unknown key "${key}"`, key);
+    }
+  }
+  if (spec.pick !== undefined && spec.omit !== undefined) {
+    throw new SpecError("pick and omit can't be combined", "omit");
+  }
+
+  const writers: Writer[] = [];
+  if (spec.pick !== undefined) {
+    writers.push(compilePick(compileKeys(spec.pick, "pick")));
+  }
+  if (spec.omit !== undefined) {
+    writers.push(compileOmit(compileKeys(spec.omit, "omit")));
+  }
+  if (spec.fields !== undefined) {
+    writers.push(compileFields(spec.fields, functions ?? {}));
+  }
+
+  return <T>(element: T) => {
+    const target: Record<string, unknown> = {};
+    for (let w = 0; w < writers.length; w++) {
+      writers[w](element, target);
+    }
+    return target as Projected<T, P, F>;
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Sentinel returned from a `filterMap` callback to leave the element out of the result.
+ */
+export const SKIP: unique symbol = Symbol("map-filter-js.skip");
+
+/**
+ * Sentinel returned from a `filter` (or `filterMap` callback) to stop iterating immediately.
+ * The current element is not included and no further elements are visited.
+ */
+export const STOP: unique symbol = Symbol("map-filter-js.stop");
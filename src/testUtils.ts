@@ -0,0 +1,9 @@
+// Compile-time type assertions for the specs: `expectType<Equals<A, B>>()` fails to type-check unless A and B
+// are identical
+
+export type Equals<A, B> =
+  (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2
+    ? true
+    : false;
+
+export const expectType = <_ extends true>(): void => {};
@@ -0,0 +1,151 @@
+import mapFilter, { mapFilterTopK, STOP } from "./index";
+
+type Player = { name: string; score: number; active: boolean };
+
+const players: Player[] = [
+  { name: "Ana", score: 40, active: true },
+  { name: "Ben", score: 95, active: true },
+  { name: "Chen", score: 70, active: false },
+  { name: "Dana", score: 95, active: true },
+  { name: "Eli", score: 10, active: true },
+  { name: "Fay", score: 70, active: true },
+  { name: "Gus", score: 95, active: true },
+];
+
+const byScoreDesc = (a: { score: number }, b: { score: number }) =>
+  b.score - a.score;
+
+describe("mapFilterTopK", () => {
+  it("keeps the best k mapped results in compare order", () => {
+    const top = mapFilterTopK(
+      players,
+      (player) => player.active,
+      (player) => ({ name: player.name, score: player.score }),
+      3,
+      byScoreDesc
+    );
+    expect(top.map((entry) => entry.name)).toEqual(["Ben", "Dana", "Gus"]);
+  });
+
+  it("breaks ties by source index", () => {
+    const top = mapFilterTopK(
+      players,
+      () => true,
+      (player) => player,
+      5,
+      byScoreDesc
+    );
+    expect(top.map((player) => player.name)).toEqual([
+      "Ben",
+      "Dana",
+      "Gus",
+      "Chen",
+      "Fay",
+    ]);
+  });
+
+  it("matches mapFilter followed by a stable sort and slice", () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) % 50;
+    const values = Array.from({ length: 2000 }, random);
+    const keep = (n: number) => n % 3 !== 0;
+    const toRow = (n: number, index: number) => ({ n, index });
+    const compare = (a: { n: number }, b: { n: number }) => a.n - b.n;
+
+    for (const k of [1, 7, 64, 1999, 5000]) {
+      const expected = mapFilter(values, keep, toRow).sort(compare).slice(0, k);
+      expect(mapFilterTopK(values, keep, toRow, k, compare)).toEqual(expected);
+    }
+  });
+
+  it("returns every result sorted when fewer than k pass", () => {
+    expect(
+      mapFilterTopK(
+        [5, 1, 4],
+        () => true,
+        (n) => n,
+        10,
+        (a, b) => a - b
+      )
+    ).toEqual([1, 4, 5]);
+  });
+
+  it("passes (element, index, array) and skips holes", () => {
+    const source = [3, , 1, 2] as number[];
+    const filter = jest.fn(() => true);
+    const template = jest.fn((n: number, index: number) => n * 10 + index);
+    const top = mapFilterTopK(source, filter, template, 2, (a, b) => a - b);
+
+    expect(top).toEqual([12, 23]);
+    expect(filter.mock.calls).toEqual([
+      [3, 0, source],
+      [1, 2, source],
+      [2, 3, source],
+    ]);
+  });
+
+  it("stops at STOP", () => {
+    const top = mapFilterTopK(
+      [4, 2, 9, 1, 0],
+      (n) => (n === 1 ? STOP : true),
+      (n) => n,
+      2,
+      (a, b) => a - b
+    );
+    expect(top).toEqual([2, 4]);
+  });
+
+  it("does not visit the array for k = 0", () => {
+    const filter = jest.fn(() => true);
+    expect(
+      mapFilterTopK(
+        [1, 2],
+        filter,
+        (n) => n,
+        0,
+        (a, b) => a - b
+      )
+    ).toEqual([]);
+    expect(filter).not.toHaveBeenCalled();
+  });
+
+  it("narrows the element type with type-guard filters", () => {
+    const values: Array<string | number> = [3, "a", 1, "b", 2];
+    const top = mapFilterTopK(
+      values,
+      (value): value is number => typeof value === "number",
+      (n) => n.toFixed(1),
+      2,
+      (a, b) => a.localeCompare(b)
+    );
+    expect(top).toEqual(["1.0", "2.0"]);
+  });
+
+  it("validates its arguments", () => {
+    const run = (k: number, compare: unknown) => () =>
+      mapFilterTopK(
+        [1],
+        () => true,
+        (n) => n,
+        k,
+        compare as (a: number, b: number) => number
+      );
+
+    expect(run(-1, (a: number, b: number) => a - b)).toThrow(
+      new RangeError("k must be a non-negative integer")
+    );
+    expect(run(1.5, (a: number, b: number) => a - b)).toThrow(RangeError);
+    expect(run(1, undefined)).toThrow(
+      new TypeError("compare must be a function")
+    );
+    expect(() =>
+      mapFilterTopK(
+        "abc" as any,
+        () => true,
+        (n) => n,
+        1,
+        () => 0
+      )
+    ).toThrow(new TypeError("First argument must be an array"));
+  });
+});
@@ -0,0 +1,132 @@
+import { STOP } from "./sentinels.js";
+import { assertArray } from "./utils.js";
+
+/**
+ * When `filter` is a type guard (`(element: T) => element is S`), the `template` receives the
+ * narrowed element type `S`.
+ */
+export function mapFilterTopK<T, S extends T, U>(
+  array: ReadonlyArray<T>,
+  filter: (element: T, index: number, array: ReadonlyArray<T>) => element is S,
+  template: (element: S, index: number, array: ReadonlyArray<T>) => U,
+  k: number,
+  compare: (a: U, b: U) => number
+): U[];
+/**
+ * Returns the first `k` mapped results in `compare` order, as `mapFilter(...).sort(compare).slice(0, k)` would,
+ * without sorting every result.
+ *
+ * A bounded heap holds the best `k` results seen so far, so the pass takes O(n log k) time and O(k) memory and
+ * only the kept results are sorted at the end. Results that compare equal keep their source order. Holes are
+ * skipped and `STOP` ends iteration, as in `mapFilter`.
+ *
+ * @param {Array} array An array of elements to be filterMapped
+ * @param {(element: any, index: number, array: any[]) => any} filter A function that accepts up to three
+ * arguments. Called once for each non-hole element in the array.
+ * @param {(element: any, index: number, array: any[]) => any} template A function that accepts up to three
+ * arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {number} k The number of results to keep
+ * @param {(a: any, b: any) => number} compare A comparator like the one `Array.prototype.sort` takes; results
+ * that sort first are kept
+ */
+export function mapFilterTopK<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  k: number,
+  compare: (a: U, b: U) => number
+): U[];
+export function mapFilterTopK<T, U>(
+  array: ReadonlyArray<T>,
+  filter: (
+    element: T,
+    index: number,
+    array: ReadonlyArray<T>
+  ) => boolean | typeof STOP,
+  template: (element: T, index: number, array: ReadonlyArray<T>) => U,
+  k: number,
+  compare: (a: U, b: U) => number
+): U[] {
+  assertArray(array);
+  if (!Number.isInteger(k) || k < 0) {
+    throw new RangeError("k must be a non-negative integer");
+  }
+  if (typeof compare !== "function") {
+    throw new TypeError("compare must be a function");
+  }
+
+  // Max-heap on (compare, source index): the root is the worst result kept so far. Values and their source
+  // indices are stored side by side so no wrapper object is allocated per result
+  const values: U[] = [];
+  const indices: number[] = [];
+
+  // Whether the result at heap slot `a` sorts after the one at slot `b`
+  const worse = (a: number, b: number): boolean => {
+    const order = compare(values[a], values[b]);
+    return order > 0 || (order === 0 && indices[a] > indices[b]);
+  };
+
+  const swap = (a: number, b: number): void => {
+    const value = values[a];
+    values[a] = values[b];
+    values[b] = value;
+    const index = indices[a];
+    indices[a] = indices[b];
+    indices[b] = index;
+  };
+
+  const len = k === 0 ? 0 : array.length;
+  for (let i = 0; i < len; i++) {
+    // Skip holes in the array (e.g., [, , 1, , 2])
+    if (!(i in array)) continue;
+
+    const element: T = array[i];
+    const predicate = filter(element, i, array);
+    if (!predicate) continue;
+    if (predicate === STOP) break;
+
+    const value = template(element, i, array);
+    let slot: number;
+    if (values.length < k) {
+      // Sift up from the new leaf
+      slot = values.length;
+      values.push(value);
+      indices.push(i);
+      while (slot > 0) {
+        const parent = (slot - 1) >> 1;
+        if (!worse(slot, parent)) break;
+        swap(slot, parent);
+        slot = parent;
+      }
+      continue;
+    }
+
+    // A later element only replaces the root when it sorts strictly before it; on a tie the root has the
+    // smaller source index and wins
+    if (compare(value, values[0]) >= 0) continue;
+
+    values[0] = value;
+    indices[0] = i;
+    slot = 0;
+    for (;;) {
+      const left = 2 * slot + 1;
+      if (left >= k) break;
+
+      const right = left + 1;
+      const child = right < k && worse(right, left) ? right : left;
+      if (!worse(child, slot)) break;
+      swap(slot, child);
+      slot = child;
+    }
+  }
+
+  const order = values.map((_, slot) => slot);
+  order.sort(
+    (a, b) => compare(values[a], values[b]) || indices[a] - indices[b]
+  );
+  return order.map((slot) => values[slot]);
+}
@@ -0,0 +1,121 @@
+import mapFilter, { mapFilterTyped } from "./index";
+
+describe("mapFilterTyped", () => {
+  const samples = Float64Array.from([0.5, -1.25, 3, -4, 8.75]);
+  const isPositive = (x: number) => x > 0;
+
+  it("returns an empty array for an empty typed array", () => {
+    expect(mapFilterTyped(new Int32Array(0), isPositive, (x) => x)).toEqual([]);
+  });
+
+  describe("plain array output", () => {
+    it("accepts typed arrays that mapFilter rejects", () => {
+      expect(() =>
+        mapFilter(samples as any, isPositive, (x: number) => x)
+      ).toThrow(TypeError);
+
+      const result: string[] = mapFilterTyped(
+        samples,
+        isPositive,
+        (x, index) => `${x}@${index}`
+      );
+      expect(result).toEqual(["0.5@0", "3@2", "8.75@4"]);
+    });
+
+    it("passes bigint elements for 64-bit integer arrays", () => {
+      const ids = BigInt64Array.from([1n, -2n, 3n]);
+      const result = mapFilterTyped(
+        ids,
+        (x) => x > 0n,
+        (x) => x * 10n
+      );
+      expect(result).toEqual([10n, 30n]);
+    });
+  });
+
+  describe("typed array output", () => {
+    it("writes into a typed array of the chosen constructor", () => {
+      const result = mapFilterTyped(
+        samples,
+        isPositive,
+        (x) => x * 2,
+        Float64Array
+      );
+
+      expect(result).toBeInstanceOf(Float64Array);
+      expect(Array.from(result)).toEqual([1, 6, 17.5]);
+      expect(result.length).toBe(3);
+      expect(result.buffer.byteLength).toBe(3 * 8);
+    });
+
+    it("converts values the way the output type does", () => {
+      const result = mapFilterTyped(
+        samples,
+        () => true,
+        (x) => x * 100,
+        Uint8ClampedArray
+      );
+      expect(Array.from(result)).toEqual([50, 0, 255, 0, 255]);
+
+      const truncated = mapFilterTyped(
+        samples,
+        isPositive,
+        (x) => x,
+        Int16Array
+      );
+      expect(Array.from(truncated)).toEqual([0, 3, 8]);
+    });
+
+    it("maps between number and bigint typed arrays", () => {
+      const result = mapFilterTyped(
+        Int32Array.from([1, 2, 3]),
+        (x) => x !== 2,
+        (x) => BigInt(x) << 40n,
+        BigUint64Array
+      );
+      expect(Array.from(result)).toEqual([1n << 40n, 3n << 40n]);
+    });
+
+    it("returns an empty typed array when nothing passes", () => {
+      const result = mapFilterTyped(
+        samples,
+        () => false,
+        (x) => x,
+        Float32Array
+      );
+      expect(result).toBeInstanceOf(Float32Array);
+      expect(result.length).toBe(0);
+    });
+
+    it("does not modify the source", () => {
+      const source = Int32Array.from([1, 2, 3]);
+      mapFilterTyped(
+        source,
+        () => true,
+        (x) => x * 2,
+        Int32Array
+      );
+      expect(Array.from(source)).toEqual([1, 2, 3]);
+    });
+  });
+
+  it("calls the template only for elements that pass, with indices and the array", () => {
+    const template = jest.fn((x: number) => x);
+    mapFilterTyped(samples, isPositive, template, Float64Array);
+
+    expect(template).toHaveBeenCalledTimes(3);
+    expect(template).toHaveBeenCalledWith(3, 2, samples);
+  });
+
+  it("should throw TypeError when first argument is not a typed array", () => {
+    [[1, 2], new DataView(new ArrayBuffer(4)), null, {}].forEach((input) => {
+      expect(() =>
+        mapFilterTyped(
+          input as any,
+          () => true,
+          (x) => x
+        )
+      ).toThrow("First argument must be a typed array");
+    });
+  });
+});
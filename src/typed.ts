@@ -0,0 +1,95 @@
+import { assertTypedArray } from "./utils.js";
+
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/** `bigint` for the 64-bit integer arrays, `number` for the rest */
+export type TypedArrayElement<A extends TypedArray> = A extends
+  BigInt64Array | BigUint64Array
+  ? bigint
+  : number;
+
+export type TypedArrayConstructor<A extends TypedArray> = {
+  new (length: number): A;
+};
+
+/**
+ * Writes the mapped values straight into a typed array created with the `output` constructor.
+ */
+export function mapFilterTyped<A extends TypedArray, R extends TypedArray>(
+  array: A,
+  filter: (element: TypedArrayElement<A>, index: number, array: A) => boolean,
+  template: (
+    element: TypedArrayElement<A>,
+    index: number,
+    array: A
+  ) => TypedArrayElement<R>,
+  output: TypedArrayConstructor<R>
+): R;
+/**
+ * Version of `mapFilter` for typed arrays (`Float64Array`, `Int32Array`, ...), which `mapFilter` rejects.
+ *
+ * Without `output`, the mapped values are returned in a plain array. With an `output` typed array constructor,
+ * they are written into a typed array of that type with no boxed `number[]` in between; values are converted
+ * the same way assigning to that typed array converts them (e.g. truncation for integer arrays).
+ *
+ * @param {TypedArray} array A typed array of elements to be filterMapped
+ * @param {(element: number | bigint, index: number, array: TypedArray) => boolean} filter A function that accepts up
+ * to three arguments. Called once for each element in the array.
+ * @param {(element: number | bigint, index: number, array: TypedArray) => any} template A function that accepts up
+ * to three arguments. Called once for each element that has a truthy predicate from the `filter`.
+ * @param {TypedArrayConstructor} output Optional typed array constructor for the result
+ */
+export function mapFilterTyped<A extends TypedArray, U>(
+  array: A,
+  filter: (element: TypedArrayElement<A>, index: number, array: A) => boolean,
+  template: (element: TypedArrayElement<A>, index: number, array: A) => U
+): U[];
+export function mapFilterTyped<A extends TypedArray, U>(
+  array: A,
+  filter: (element: TypedArrayElement<A>, index: number, array: A) => boolean,
+  template: (element: TypedArrayElement<A>, index: number, array: A) => U,
+  output?: TypedArrayConstructor<TypedArray>
+): U[] | TypedArray {
+  assertTypedArray(array);
+
+  // Typed arrays are always dense, so there are no holes to skip
+  const source = array as unknown as ArrayLike<TypedArrayElement<A>>;
+  const len = array.length;
+
+  if (output === undefined) {
+    const newArray: U[] = [];
+    for (let i = 0; i < len; i++) {
+      const element = source[i];
+      if (filter(element, i, array)) {
+        newArray.push(template(element, i, array));
+      }
+    }
+    return newArray;
+  }
+
+  const target = new output(len) as unknown as { [index: number]: U };
+  let count = 0;
+  for (let i = 0; i < len; i++) {
+    const element = source[i];
+    if (filter(element, i, array)) {
+      target[count++] = template(element, i, array);
+    }
+  }
+
+  const result = target as unknown as TypedArray;
+  if (count === len) return result;
+
+  // Copy into an exactly sized array so the oversized buffer can be released
+  return result.slice(0, count);
+}
@@ -0,0 +1,156 @@
+import { SpecError } from "./errors.js";
+
+/**
+ * Throws the same TypeError as `mapFilter` when the input is not an array.
+ *
+ * @param {unknown} array The value passed as the first argument
+ */
+export function assertArray(array: unknown): asserts array is ReadonlyArray<unknown> {
+  if (!Array.isArray(array)) {
+    throw new TypeError("First argument must be an array");
+  }
+}
+
+/**
+ * Returns the reason an AbortSignal was aborted with, falling back to a generic
+ * `AbortError` for runtimes that don't populate `signal.reason`.
+ *
+ * @param {AbortSignal} signal The aborted signal
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) return signal.reason;
+
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Throws a TypeError when the input does not implement the iterable protocol.
+ *
+ * @param {unknown} iterable The value passed as the first argument
+ */
+export function assertIterable(iterable: unknown): asserts iterable is Iterable<unknown> {
+  if (
+    iterable == null ||
+    typeof (iterable as Iterable<unknown>)[Symbol.iterator] !== "function"
+  ) {
+    throw new TypeError("First argument must be iterable");
+  }
+}
+
+/**
+ * Validates the `offset` and `limit` options shared by the paging variants.
+ *
+ * @param {{ offset?: number, limit?: number }} options The caller's options
+ */
+export function resolveRange(options: { offset?: number; limit?: number }): {
+  offset: number;
+  limit: number;
+} {
+  const { offset = 0, limit = Infinity } = options;
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new RangeError("offset must be a non-negative integer");
+  }
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 0)) {
+    throw new RangeError("limit must be a non-negative integer or Infinity");
+  }
+
+  return { offset, limit };
+}
+
+/**
+ * Throws a TypeError when the input is not a typed array (a `DataView` doesn't count).
+ *
+ * @param {unknown} array The value passed as the first argument
+ */
+export function assertTypedArray(array: unknown): void {
+  if (!ArrayBuffer.isView(array) || array instanceof DataView) {
+    throw new TypeError("First argument must be a typed array");
+  }
+}
+
+/**
+ * Returns `true` for objects created by a literal, `JSON.parse` or `Object.create(null)`.
+ *
+ * @param {unknown} value The value to check
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Appends a key (or an array index) to a location inside a spec, for `SpecError` messages.
+ *
+ * @param {string} parent Location of the enclosing value; empty for the spec itself
+ * @param {string | number} key The key or index inside it
+ */
+export function joinPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent === "" ? key : `${parent}.${key}`;
+}
+
+/**
+ * Splits a dotted path such as `"address.city"` into its keys, rejecting empty segments.
+ *
+ * @param {string} path The dotted path from the spec
+ * @param {string} at Location of the path inside the spec, for the `SpecError`
+ */
+export function splitPath(path: string, at: string): string[] {
+  const keys = path.split(".");
+  if (keys.includes("")) {
+    throw new SpecError(`Invalid path "${path}"`, at);
+  }
+  return keys;
+}
+
+/**
+ * Reads a dotted path (already split into keys) from a value, one own property at a time. Missing keys,
+ * `null` or `undefined` along the way, and inherited properties such as `constructor` all read as `undefined`.
+ *
+ * @param {unknown} value The object to read from
+ * @param {string[]} keys The path's keys, outermost first
+ */
+export function readPath(value: unknown, keys: readonly string[]): unknown {
+  let current = value;
+  for (let k = 0; k < keys.length; k++) {
+    if (
+      current == null ||
+      !Object.prototype.hasOwnProperty.call(current, keys[k])
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[keys[k]];
+  }
+  return current;
+}
+
+/**
+ * Defines an own data property even for `"__proto__"`, which a plain assignment would treat as the prototype.
+ *
+ * @param {object} target The object to write to
+ * @param {PropertyKey} key The property key
+ * @param {unknown} value The property value
+ */
+export function setOwn(
+  target: Record<PropertyKey, unknown>,
+  key: PropertyKey,
+  value: unknown
+): void {
+  if (key === "__proto__") {
+    Object.defineProperty(target, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  } else {
+    target[key] = value;
+  }
+}